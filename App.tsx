@@ -1,244 +1,508 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Repo, TimeFrame, AppStatus } from './types';
-import { fetchTrendingRepos, validateGeminiKey } from './services/geminiService';
-import { fetchDeepSeekTrendingRepos, validateDeepSeekKey } from './services/deepseekService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Repo, TimeFrame, AppStatus, ConnectionStatus, ProviderConfig, GitHubRateLimit, GroundingSource, ScanResult, VaultEntry, HuntProfile, CachedScan } from './types';
+import { AIProvider, getProvider, isProviderConfigured, listProviders, loadProviderConfig, loadSelectedProviderId, runProviderScan, saveProviderConfig, saveSelectedProviderId } from './services/providers';
+import { GITHUB_TOKEN_SETTING, pingGitHub, setGitHubToken, subscribeRateLimit } from './services/githubService';
+import { applyMeasuredVelocity, recordStarSnapshots } from './services/starHistory';
+import { ScanProgress, formatScanProgress, subscribeScanLog, subscribeScanProgress } from './services/scanEvents';
+import { listScanSnapshots, saveScanSnapshot } from './services/scanHistory';
+import { VAULT_RECORD, cacheRecordKey, readRecord, reloadStorage, removeRecord, writeRecord } from './services/storage';
+import { VaultState, disableVault, enableVault, getSecret, getVaultState, lockVault, setSecret, unlockVault } from './services/keyVault';
+import { ConflictStrategy, exportVaultJson, exportVaultOpml, mergeVaultEntries } from './services/vaultTransfer';
+import { EMPTY_VAULT_FILTER, VaultFilter, filterVault, listFolders, listPersonalTags, toVaultEntry } from './services/vault';
+import { VAULT_ALERT_LABELS, isVaultStale, refreshVaultEntries } from './services/vaultMonitor';
+import { EMPTY_RESULT_QUERY, ResultQuery, applyResultQuery, isQueryActive, listLanguages } from './services/resultFilter';
+import { loadHuntProfiles, saveHuntProfiles } from './services/huntProfiles';
+import { RefreshSchedule, describeSchedule, getLatestCheckpoint, loadRefreshSchedule, saveRefreshSchedule } from './services/refreshSchedule';
+import { PRESET_FRAMES, frameKey, frameLabel, loadPinnedFrames, sameFrame, savePinnedFrames, uniqueFrames } from './services/timeFrames';
+import { archivedNotice, entrantNotice, findTopEntrants } from './services/backgroundRefresh';
+import { disableBackgroundSync, enableBackgroundSync, registerServiceWorker, requestNotificationPermission, showNotices, subscribeBackgroundRefresh } from './services/serviceWorker';
 import CyberButton from './components/CyberButton';
 import RepoCard from './components/RepoCard';
 import SystemLog from './components/SystemLog';
 import CountDown from './components/CountDown';
 import BackToTop from './components/BackToTop';
+import KeyModal from './components/KeyModal';
+import ProviderSelector from './components/ProviderSelector';
+import RateLimitMeter from './components/RateLimitMeter';
+import SourcePanel from './components/SourcePanel';
+import HistoryView from './components/HistoryView';
+import CompareView from './components/CompareView';
+import VaultImportModal from './components/VaultImportModal';
+import VaultEntryPanel from './components/VaultEntryPanel';
+import VaultFilters from './components/VaultFilters';
+import ResultToolbar from './components/ResultToolbar';
+import HuntProfileModal from './components/HuntProfileModal';
+import TimeFrameModal from './components/TimeFrameModal';
+import ScheduleModal from './components/ScheduleModal';
 
-const CACHE_PREFIX = 'cybergit_cache_';
-const FAV_STORAGE_KEY = 'cybergit_fav_vault';
-const DEEPSEEK_KEY_STORAGE = 'cybergit_ds_key';
-const GOOGLE_KEY_STORAGE = 'cybergit_google_key';
+type ViewMode = 'scanner' | 'vault' | 'history' | 'compare';
+// 'schedule' runs (startup, checkpoints) raise the same notifications as the service worker would
+type RunOrigin = 'user' | 'schedule';
 
-type ViewMode = 'scanner' | 'vault';
-type AIProvider = 'google' | 'deepseek';
-type ConnectionStatus = 'idle' | 'checking' | 'success' | 'error';
+// Abort reason of the cancel button, told apart from timeouts and superseded scans
+const SCAN_CANCELLED = new Error('扫描已取消');
+
+// Keys (and extra connection settings) are stored per provider under its own settings slots
+const loadStoredConfigs = (): Record<string, ProviderConfig> => {
+  return Object.fromEntries(
+    listProviders().map(p => [p.id, loadProviderConfig(p)])
+  );
+};
+
+// Settings the key vault encrypts: every provider key plus the GitHub token
+const listSecretSettings = (): string[] => [
+  ...listProviders().flatMap(p => (p.keyStorageKey ? [p.keyStorageKey] : [])),
+  GITHUB_TOKEN_SETTING
+];
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewMode>('scanner');
-  const [aiProvider, setAiProvider] = useState<AIProvider>('deepseek'); 
-  const [activeTab, setActiveTab] = useState<TimeFrame>('3d');
-  const activeTabRef = useRef<TimeFrame>('3d');
+  const [providerId, setProviderId] = useState<string>(loadSelectedProviderId);
+  const aiProvider = getProvider(providerId);
+  const theme = aiProvider.theme;
+  const [pinnedFrames, setPinnedFrames] = useState<TimeFrame[]>(loadPinnedFrames);
+  const [activeTab, setActiveTab] = useState<TimeFrame>(pinnedFrames[0]);
+  const activeTabRef = useRef<TimeFrame>(pinnedFrames[0]);
+  const [showFrameModal, setShowFrameModal] = useState(false);
+  const [refreshSchedule, setRefreshSchedule] = useState<RefreshSchedule>(loadRefreshSchedule);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+  const [huntProfiles, setHuntProfiles] = useState<HuntProfile[]>(loadHuntProfiles);
+  const [activeProfile, setActiveProfile] = useState<HuntProfile | null>(null);
+  const activeProfileRef = useRef<HuntProfile | null>(null);
+  // undefined = closed, null = creating a new profile
+  const [editingProfile, setEditingProfile] = useState<HuntProfile | null | undefined>(undefined);
   
   const [repos, setRepos] = useState<Repo[]>([]);
-  const [favorites, setFavorites] = useState<Repo[]>([]);
+  // The running scan; aborted by the cancel button or when another scan replaces it
+  const scanControllerRef = useRef<AbortController | null>(null);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [scanSources, setScanSources] = useState<GroundingSource[]>([]);
+  const [favorites, setFavorites] = useState<VaultEntry[]>(() => readRecord<VaultEntry[]>(VAULT_RECORD, []));
+  const [vaultFilter, setVaultFilter] = useState<VaultFilter>(EMPTY_VAULT_FILTER);
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [logs, setLogs] = useState<string[]>(['系统初始化完成...', '等待指令...']);
   const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [resultQuery, setResultQuery] = useState<ResultQuery>(EMPTY_RESULT_QUERY);
+  const [scanHistory, setScanHistory] = useState<ScanResult[]>([]);
+  const [openedSnapshotId, setOpenedSnapshotId] = useState<number | undefined>(undefined);
 
   // Connection Status State
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('idle');
 
-  // DeepSeek Key Management
-  const [deepseekKey, setDeepseekKey] = useState<string>(() => {
-      return localStorage.getItem(DEEPSEEK_KEY_STORAGE) || '';
-  });
-  
-  // Google Key Management
-  const [googleKey, setGoogleKey] = useState<string>(() => {
-    return localStorage.getItem(GOOGLE_KEY_STORAGE) || '';
-  });
+  // API Key Management (keyed by provider id)
+  const [providerConfigs, setProviderConfigs] = useState<Record<string, ProviderConfig>>(loadStoredConfigs);
   
   // Use Refs to avoid stale closures in setTimeout/async calls
-  const deepseekKeyRef = useRef(deepseekKey);
-  const googleKeyRef = useRef(googleKey);
+  const providerConfigsRef = useRef(providerConfigs);
   
   useEffect(() => {
-    deepseekKeyRef.current = deepseekKey;
-  }, [deepseekKey]);
-
-  useEffect(() => {
-    googleKeyRef.current = googleKey;
-  }, [googleKey]);
-
-  const [showKeyModal, setShowKeyModal] = useState(false);
-  const keyInputRef = useRef<HTMLInputElement>(null);
+    providerConfigsRef.current = providerConfigs;
+  }, [providerConfigs]);
 
   const addLog = (msg: string) => {
     setLogs(prev => [...prev, msg]);
   };
 
+  // GitHub token (optional): sent on every GitHub call, otherwise unauthenticated 60/hr
+  const [githubToken, setGithubTokenState] = useState<string>(() => {
+    return getSecret(GITHUB_TOKEN_SETTING);
+  });
+  const [vaultState, setVaultState] = useState<VaultState>(getVaultState);
+  const [rateLimit, setRateLimit] = useState<GitHubRateLimit | null>(null);
+
+  useEffect(() => {
+    setGitHubToken(githubToken);
+  }, [githubToken]);
+
+  // Service-layer log lines (parser reports, validation drops) go to the terminal
+  useEffect(() => {
+    return subscribeScanLog(addLog);
+  }, []);
+
+  useEffect(() => {
+    return subscribeScanProgress(setScanProgress);
+  }, []);
+
+  useEffect(() => {
+    return subscribeRateLimit(limit => {
+      if (limit.resource === 'core') setRateLimit(limit);
+    });
+  }, []);
+
+  const [showKeyModal, setShowKeyModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [isRefreshingVault, setIsRefreshingVault] = useState(false);
+
   // Verify connection for current provider
-  const verifyCurrentConnection = async (key: string, provider: AIProvider) => {
+  const verifyCurrentConnection = async (config: ProviderConfig, provider: AIProvider, signal?: AbortSignal) => {
     setConnectionStatus('checking');
-    let isValid = false;
-
-    if (provider === 'google') {
-        isValid = await validateGeminiKey(key);
-    } else {
-        isValid = await validateDeepSeekKey(key);
+    const isValid = await provider.validateKey(config, signal);
+    // Cancelled mid-check: the answer says nothing about the key
+    if (signal?.aborted) {
+        setConnectionStatus('idle');
+        return;
     }
 
     if (isValid) {
         setConnectionStatus('success');
-        addLog(`[系统] ${provider === 'google' ? 'Google' : 'DeepSeek'} API 链路连接成功。`);
+        addLog(`[系统] ${provider.label} API 链路连接成功。`);
     } else {
         setConnectionStatus('error');
-        addLog(`[警告] ${provider === 'google' ? 'Google' : 'DeepSeek'} API 连接失败，请检查密钥。`);
+        addLog(`[警告] ${provider.label} API 连接失败，请检查密钥。`);
     }
   };
 
-  // Helper: Get the most recent 5:00 AM or 5:00 PM timestamp
-  const getLatestCheckpoint = (): number => {
-    const now = new Date();
-    const c1 = new Date(now);
-    c1.setHours(5, 0, 0, 0); 
-    const c2 = new Date(now);
-    c2.setHours(17, 0, 0, 0); 
+  // Results only land in the grid if the user is still on the tab (window + hunt profile) that started the scan
+  const isActiveScope = (frame: TimeFrame, profile: HuntProfile | null) =>
+    sameFrame(activeTabRef.current, frame) && (activeProfileRef.current?.id ?? null) === (profile?.id ?? null);
 
-    if (now.getTime() < c1.getTime()) {
-      const yesterday17 = new Date(now);
-      yesterday17.setDate(yesterday17.getDate() - 1);
-      yesterday17.setHours(17, 0, 0, 0);
-      return yesterday17.getTime();
-    }
-    if (now.getTime() < c2.getTime()) {
-      return c1.getTime();
+  const loadCache = (frame: TimeFrame, profile: HuntProfile | null): CachedScan | null => {
+    const cached = readRecord<CachedScan | null>(cacheRecordKey(frameKey(frame), profile?.id), null);
+    if (!cached || !cached.data || !cached.timestamp) return null;
+
+    const checkpoint = getLatestCheckpoint(refreshSchedule);
+    if (cached.timestamp < checkpoint) {
+      addLog(`缓存数据已过期 (上次更新: ${new Date(cached.timestamp).toLocaleTimeString()})`);
+      return null; 
     }
-    return c2.getTime();
+
+    return cached;
   };
 
-  const loadCache = (frame: TimeFrame): { data: Repo[], timestamp: number } | null => {
-    try {
-      const stored = localStorage.getItem(CACHE_PREFIX + frame);
-      if (!stored) return null;
-      
-      const parsed = JSON.parse(stored);
-      if (!parsed.data || !parsed.timestamp) return null;
+  const saveCache = (frame: TimeFrame, profile: HuntProfile | null, data: Repo[], sources?: GroundingSource[]) => {
+    const timestamp = Date.now();
+    writeRecord<CachedScan>(cacheRecordKey(frameKey(frame), profile?.id), { data, timestamp, sources });
+    if (isActiveScope(frame, profile)) {
+      setLastUpdated(timestamp);
+    }
+  };
 
-      const checkpoint = getLatestCheckpoint();
-      if (parsed.timestamp < checkpoint) {
-        addLog(`缓存数据已过期 (上次更新: ${new Date(parsed.timestamp).toLocaleTimeString()})`);
-        return null; 
+  const saveKey = async (config: ProviderConfig, token: string) => {
+    if (token !== githubToken) {
+      await setSecret(GITHUB_TOKEN_SETTING, token);
+      setGithubTokenState(token);
+      setGitHubToken(token);
+      const tokenValid = await pingGitHub();
+      if (!token) {
+        addLog('[系统] 已移除 GitHub Token，切换为匿名模式 (60次/小时)。');
+      } else if (tokenValid) {
+        addLog('[系统] GitHub Token 验证成功，配额提升。');
+      } else {
+        addLog('[警告] GitHub Token 无效或已过期。');
       }
-
-      return parsed;
-    } catch (e) {
-      console.error('Cache load error', e);
-      return null;
     }
+
+    const nextConfigs = { ...providerConfigsRef.current, [aiProvider.id]: config };
+    providerConfigsRef.current = nextConfigs;
+    setProviderConfigs(nextConfigs);
+    await saveProviderConfig(aiProvider, config);
+
+    // Trigger validation immediately upon saving; the modal stays open so the user sees the result
+    await verifyCurrentConnection(config, aiProvider);
   };
 
-  const saveCache = (frame: TimeFrame, data: Repo[]) => {
-    const timestamp = Date.now();
-    localStorage.setItem(CACHE_PREFIX + frame, JSON.stringify({ data, timestamp }));
-    if (activeTabRef.current === frame) {
-      setLastUpdated(timestamp);
-    }
+  const archiveScan = async (scan: ScanResult): Promise<ScanResult | null> => {
+    const stored = await saveScanSnapshot(scan);
+    if (stored) setScanHistory(prev => [stored, ...prev]);
+    return stored;
   };
 
-  const saveKey = async () => {
-    if (keyInputRef.current) {
-        const val = keyInputRef.current.value.trim();
-        
-        if (aiProvider === 'deepseek') {
-            setDeepseekKey(val);
-            localStorage.setItem(DEEPSEEK_KEY_STORAGE, val);
-        } else {
-            setGoogleKey(val);
-            localStorage.setItem(GOOGLE_KEY_STORAGE, val);
-        }
-
-        // Trigger validation immediately upon saving
-        await verifyCurrentConnection(val, aiProvider);
-        
-        // Only close if successful (optional, currently closing to not block flow)
-        // setShowKeyModal(false); 
-        // For better UX, let user see the success status in modal
-        if (connectionStatus === 'error') {
-            // Keep open maybe? For now let's just log and user can see status
-        }
+  // Re-read keys after the vault is unlocked or locked
+  const reloadSecrets = () => {
+    const configs = loadStoredConfigs();
+    providerConfigsRef.current = configs;
+    setProviderConfigs(configs);
+    const token = getSecret(GITHUB_TOKEN_SETTING);
+    setGithubTokenState(token);
+    setGitHubToken(token);
+    return configs;
+  };
+
+  const unlockKeys = async (passphrase: string): Promise<boolean> => {
+    const ok = await unlockVault(passphrase);
+    if (!ok) {
+      addLog('[警告] 密钥保险箱解锁失败：口令错误。');
+      return false;
+    }
+    const configs = reloadSecrets();
+    setVaultState('unlocked');
+    addLog('[系统] 密钥保险箱已解锁 (仅本次会话)。');
+    if (isProviderConfigured(aiProvider, configs[aiProvider.id])) {
+      verifyCurrentConnection(configs[aiProvider.id], aiProvider);
     }
+    return true;
   };
 
-  const handleScan = async (frame: TimeFrame, forceRefresh: boolean = false) => {
+  const enableKeyVault = async (passphrase: string) => {
+    await enableVault(passphrase, listSecretSettings());
+    setVaultState('unlocked');
+    addLog('[系统] 已启用口令加密，明文密钥已清除。');
+  };
+
+  const disableKeyVault = () => {
+    disableVault();
+    reloadSecrets();
+    setVaultState('off');
+    addLog('[系统] 已停用口令加密，密钥恢复为本地明文存储。');
+  };
+
+  const lockKeys = () => {
+    lockVault();
+    reloadSecrets();
+    setVaultState('locked');
+    setConnectionStatus('idle');
+    addLog('[系统] 密钥保险箱已锁定，内存中的明文密钥已清除。');
+  };
+
+  const handleScan = async (frame: TimeFrame, forceRefresh: boolean = false, profile: HuntProfile | null = null, origin: RunOrigin = 'user') => {
     setActiveTab(frame);
     activeTabRef.current = frame;
+    setActiveProfile(profile);
+    activeProfileRef.current = profile;
+    setOpenedSnapshotId(undefined);
+
+    // A scan for another tab must stop fetching, not just have its result discarded
+    scanControllerRef.current?.abort();
+    scanControllerRef.current = null;
+    setScanProgress(null);
     
     if (!forceRefresh) {
-      const cached = loadCache(frame);
+      const cached = loadCache(frame, profile);
       if (cached) {
-        setRepos(cached.data);
+        setRepos(applyMeasuredVelocity(cached.data, frame));
+        setScanSources(cached.sources || []);
         setLastUpdated(cached.timestamp);
         setStatus(AppStatus.COMPLETE);
-        addLog(`[本地缓存] 加载 ${frame} 数据成功。`);
+        addLog(`[本地缓存] 加载 ${profile ? `${profile.name} / ` : ''}${frameLabel(frame)} 数据成功。`);
         return;
       }
     }
 
+    const controller = new AbortController();
+    scanControllerRef.current = controller;
     setStatus(AppStatus.SCANNING);
-    const timeLabel = frame === '3d' ? '3天' : frame === '7d' ? '7天' : '14天';
-    const providerLabel = aiProvider === 'google' ? 'Gemini 2.5' : 'DeepSeek V3.2';
+    const timeLabel = frameLabel(frame);
+    const providerLabel = aiProvider.label;
     
     if (forceRefresh) {
       addLog(`指令: 强制刷新数据流 (${providerLabel})...`);
     } else {
-      addLog(`启动扫描序列 - 目标: 近${timeLabel} (核心: ${providerLabel})...`);
+      addLog(`启动扫描序列 - 目标: ${profile ? `[${profile.name}] ` : ''}${timeLabel} (核心: ${providerLabel})...`);
     }
     
     setRepos([]); 
+    setScanSources([]);
 
     try {
-      const start = Date.now();
-      let results: Repo[] = [];
-
-      if (aiProvider === 'google') {
-        const currentGoogleKey = googleKeyRef.current;
-        if (!currentGoogleKey) {
-            throw new Error("Google API Key 未配置。请点击 'KEY' 按钮设置。");
-        }
-        // Verify connection silently before heavy lifting
-        await verifyCurrentConnection(currentGoogleKey, 'google');
-        results = await fetchTrendingRepos(frame, currentGoogleKey);
-      } else {
-        addLog("接入 DeepSeek V3.2 神经网络...");
-        const currentDsKey = deepseekKeyRef.current;
-        if (!currentDsKey) {
-             throw new Error("DeepSeek API Key 未配置。请点击 'KEY' 按钮设置。");
-        }
-        // Verify connection silently before heavy lifting
-        await verifyCurrentConnection(currentDsKey, 'deepseek');
-        results = await fetchDeepSeekTrendingRepos(frame, currentDsKey);
+      addLog(`接入 ${providerLabel} 神经网络...`);
+      const currentConfig = providerConfigsRef.current[aiProvider.id];
+      if (!isProviderConfigured(aiProvider, currentConfig)) {
+          throw new Error(`${providerLabel} API Key 未配置。请点击 'KEY' 按钮设置。`);
       }
+      // Verify connection silently before heavy lifting
+      await verifyCurrentConnection(currentConfig, aiProvider, controller.signal);
+      controller.signal.throwIfAborted();
+      // Cards appear one by one as GitHub confirms them; the final list below replaces them in place
+      const showConfirmed = (repo: Repo) => {
+        if (scanControllerRef.current !== controller || !isActiveScope(frame, profile)) return;
+        setRepos(prev => [...prev, ...applyMeasuredVelocity([repo], frame)]);
+      };
+      const scan = await runProviderScan(aiProvider, frame, currentConfig, profile || undefined, controller.signal, showConfirmed);
+
+      // Record real star counts, then measure velocity against earlier snapshots
+      recordStarSnapshots(scan.repos);
+      const results = applyMeasuredVelocity(scan.repos, frame);
+      const sources = scan.sources || [];
+
+      // Archive the checkpoint for the history timeline, even if the tab changed meanwhile
+      archiveScan({ ...scan, repos: results });
       
-      const duration = ((Date.now() - start) / 1000).toFixed(2);
-      
-      if (activeTabRef.current !== frame) {
-        console.log(`Scan for ${frame} completed but tab changed. Discarding.`);
+      if (!isActiveScope(frame, profile)) {
+        console.log(`Scan for ${frameKey(frame)} completed but tab changed. Discarding.`);
         return;
       }
 
       setRepos(results);
-      saveCache(frame, results);
+      setScanSources(sources);
+      // Periodic sync unavailable: a scheduled refresh on open notifies about new top-10 entrants instead
+      const previous = readRecord<CachedScan | null>(cacheRecordKey(frameKey(frame), profile?.id), null);
+      if (origin === 'schedule' && refreshSchedule.background && previous) {
+        showNotices([entrantNotice(findTopEntrants(results, previous.data), frame)]);
+      }
+      saveCache(frame, profile, results, sources);
       setStatus(AppStatus.COMPLETE);
       
-      addLog(`扫描完成，耗时 ${duration}秒。锁定 ${results.length} 个目标。`);
-    } catch (error: any) {
-      if (activeTabRef.current !== frame) return;
+      addLog(`扫描完成，耗时 ${scan.scanTimeTaken}秒。锁定 ${results.length} 个目标。`);
+      if (sources.length > 0) {
+        addLog(`[信号来源] 模型引用了 ${sources.length} 个网页来源。`);
+      }
+    } catch (error: unknown) {
+      // Replaced by a newer scan (tab switch / rescan): that one owns the UI now
+      if (scanControllerRef.current !== controller || !isActiveScope(frame, profile)) return;
+
+      if (controller.signal.aborted && controller.signal.reason === SCAN_CANCELLED) {
+        addLog('[系统] 扫描已取消。');
+        const restored = restoreStaleCache(frame, profile);
+        // Streamed cards from the unfinished scan are never saved, so they go with it
+        if (!restored) setRepos([]);
+        setStatus(restored ? AppStatus.COMPLETE : AppStatus.IDLE);
+        return;
+      }
 
       console.error(error);
+      const message = error instanceof Error ? error.message : '';
       setStatus(AppStatus.ERROR);
-      addLog(`严重错误: ${error.message || '未知网络故障'}`);
+      addLog(`严重错误: ${message || '未知网络故障'}`);
       
       // Auto-open key modal if key is missing/invalid
-      if (error.message.includes('API Key') || error.message.includes('401')) {
+      if (message.includes('API Key') || message.includes('401')) {
          setConnectionStatus('error');
          setShowKeyModal(true);
       }
 
-      const staleCache = localStorage.getItem(CACHE_PREFIX + frame);
-      if (staleCache) {
-        const parsed = JSON.parse(staleCache);
-        setRepos(parsed.data);
-        setLastUpdated(parsed.timestamp);
-        addLog('恢复旧版本缓存数据以维持显示。');
+      if (!restoreStaleCache(frame, profile)) setRepos([]);
+    } finally {
+      if (scanControllerRef.current === controller) {
+        scanControllerRef.current = null;
+        setScanProgress(null);
       }
     }
   };
 
+  const cancelScan = () => {
+    scanControllerRef.current?.abort(SCAN_CANCELLED);
+  };
+
+  // Failed or cancelled scan: keep showing the last data for the window, even if expired
+  const restoreStaleCache = (frame: TimeFrame, profile: HuntProfile | null): boolean => {
+    const staleCache = readRecord<CachedScan | null>(cacheRecordKey(frameKey(frame), profile?.id), null);
+    if (!staleCache) return false;
+    setRepos(applyMeasuredVelocity(staleCache.data, frame));
+    setScanSources(staleCache.sources || []);
+    setLastUpdated(staleCache.timestamp);
+    addLog('恢复旧版本缓存数据以维持显示。');
+    return true;
+  };
+
+  // Compare view: scan the active window with two providers at once, archiving both runs
+  const runProviderComparison = async (ids: [string, string]): Promise<(ScanResult | null)[]> => {
+    const frame = activeTabRef.current;
+    const profile = activeProfileRef.current || undefined;
+    const providers = ids.map(getProvider);
+    addLog(`[对比] 并行扫描 ${providers.map(p => p.label).join(' vs ')} (${frameLabel(frame)})...`);
+
+    const settled = await Promise.allSettled(providers.map(async provider => {
+      const config = providerConfigsRef.current[provider.id];
+      if (!isProviderConfigured(provider, config)) {
+        throw new Error(`${provider.label} API Key 未配置。`);
+      }
+      return runProviderScan(provider, frame, config, profile);
+    }));
+
+    const stored: (ScanResult | null)[] = [];
+    for (const [i, result] of settled.entries()) {
+      if (result.status === 'rejected') {
+        addLog(`[对比] ${providers[i].label} 扫描失败: ${result.reason?.message || '未知错误'}`);
+        stored.push(null);
+        continue;
+      }
+      recordStarSnapshots(result.value.repos);
+      const repos = applyMeasuredVelocity(result.value.repos, frame);
+      addLog(`[对比] ${providers[i].label} 完成，耗时 ${result.value.scanTimeTaken}秒，${repos.length} 个目标。`);
+      stored.push(await archiveScan({ ...result.value, repos }));
+    }
+    return stored;
+  };
+
+  // A profile's cached results no longer match once its focus changes
+  const clearProfileCache = (profile: HuntProfile) => {
+    removeRecord(cacheRecordKey(frameKey(profile.timeFrame), profile.id));
+  };
+
+  const saveHuntProfile = (profile: HuntProfile) => {
+    const previous = huntProfiles.find(p => p.id === profile.id);
+    const exists = !!previous;
+    const next = exists ? huntProfiles.map(p => (p.id === profile.id ? profile : p)) : [...huntProfiles, profile];
+    setHuntProfiles(next);
+    saveHuntProfiles(next);
+    if (previous) clearProfileCache(previous);
+    clearProfileCache(profile);
+    setEditingProfile(undefined);
+    addLog(`[狩猎] ${exists ? '已更新' : '已创建'}目标: ${profile.name}`);
+    handleScan(profile.timeFrame, false, profile);
+  };
+
+  const deleteHuntProfile = (id: string) => {
+    const next = huntProfiles.filter(p => p.id !== id);
+    setHuntProfiles(next);
+    saveHuntProfiles(next);
+    huntProfiles.filter(p => p.id === id).forEach(clearProfileCache);
+    setEditingProfile(undefined);
+    addLog('[狩猎] 已删除狩猎目标。');
+    if (activeProfileRef.current?.id === id) {
+      handleScan(activeTabRef.current, false);
+    }
+  };
+
+  const saveSchedule = (schedule: RefreshSchedule) => {
+    setRefreshSchedule(schedule);
+    saveRefreshSchedule(schedule);
+    setShowScheduleModal(false);
+    addLog(`[系统] 刷新计划: ${describeSchedule(schedule)}${schedule.autoScan ? '，已启用自动扫描' : ''}。`);
+    if (schedule.background) {
+      // Asked from the save click so the browser shows its permission prompt
+      requestNotificationPermission().then(granted => {
+        if (!granted) addLog('[警告] 通知权限未授予，后台刷新将不会发送提醒。');
+      });
+      syncBackgroundRefresh();
+    } else {
+      disableBackgroundSync();
+    }
+  };
+
+  const syncBackgroundRefresh = async () => {
+    const supported = await enableBackgroundSync();
+    addLog(supported
+      ? '[系统] 已注册后台周期同步，页面关闭时也会按计划刷新。'
+      : '[系统] 浏览器不支持后台周期同步，将在下次打开页面时执行计划刷新。');
+  };
+
+  // Countdown hit zero: the active tab's cache just expired, so a normal scan fetches fresh data
+  const handleCheckpoint = () => {
+    if (!refreshSchedule.autoScan) return;
+    if (status === AppStatus.SCANNING) return;
+    addLog('[系统] 到达刷新检查点，自动扫描当前标签页...');
+    handleScan(activeTabRef.current, false, activeProfileRef.current, 'schedule');
+  };
+
+  const savePinned = (frames: TimeFrame[]) => {
+    setPinnedFrames(frames);
+    savePinnedFrames(frames);
+    setShowFrameModal(false);
+    addLog(`[系统] 已固定时间窗口: ${frames.map(frameLabel).join(' / ')}`);
+    // Leaving the active window unpinned would strand the user on a tab that no longer exists
+    if (!activeProfileRef.current && !frames.some(f => sameFrame(f, activeTabRef.current))) {
+      handleScan(frames[0], false);
+    }
+  };
+
+  // Reopen an archived scan in the scanner grid
+  const openSnapshot = (scan: ScanResult) => {
+    const frame = scan.timeFrame || activeTabRef.current;
+    const profile = huntProfiles.find(p => p.id === scan.profileId) || null;
+    setActiveTab(frame);
+    activeTabRef.current = frame;
+    setActiveProfile(profile);
+    activeProfileRef.current = profile;
+    setRepos(applyMeasuredVelocity(scan.repos, frame));
+    setScanSources(scan.sources || []);
+    setLastUpdated(Date.parse(scan.timestamp));
+    setStatus(AppStatus.COMPLETE);
+    setOpenedSnapshotId(scan.id);
+    setCurrentView('scanner');
+    addLog(`[历史] 载入 ${formatLastUpdated(Date.parse(scan.timestamp))} 的扫描存档 (${scan.repos.length} 个目标)。`);
+  };
+
   const handleCopyReport = () => {
     const targetRepos = currentView === 'vault' ? favorites : repos;
     
@@ -249,7 +513,7 @@ const App: React.FC = () => {
     
     const date = new Date().toLocaleDateString('zh-CN');
     const title = currentView === 'vault' ? 'CyberGit 收藏库' : 'CyberGit 每日精选';
-    const providerSign = aiProvider === 'google' ? 'Gemini Core' : 'DeepSeek V3.2';
+    const providerSign = aiProvider.label;
     let report = `🤖 *${title} (${date})*\n[By ${providerSign}]\n\n`;
     
     targetRepos.forEach((repo, i) => {
@@ -269,61 +533,132 @@ const App: React.FC = () => {
   const toggleFavorite = (repo: Repo) => {
     setFavorites(prev => {
       const exists = prev.some(f => f.name === repo.name);
-      let newFavs;
+      let newFavs: VaultEntry[];
       
       if (exists) {
         newFavs = prev.filter(f => f.name !== repo.name);
         addLog(`已从收藏库移除: ${repo.name}`);
       } else {
-        newFavs = [...prev, repo];
+        newFavs = [...prev, toVaultEntry(repo, { addedAt: Date.now() })];
         addLog(`已写入数据保险库: ${repo.name}`);
       }
       
-      localStorage.setItem(FAV_STORAGE_KEY, JSON.stringify(newFavs));
+      writeRecord(VAULT_RECORD, newFavs);
       return newFavs;
     });
   };
 
+  const updateVaultEntry = (name: string, patch: Partial<VaultEntry>) => {
+    setFavorites(prev => {
+      const next = prev.map(entry => (entry.name === name ? { ...entry, ...patch } : entry));
+      writeRecord(VAULT_RECORD, next);
+      return next;
+    });
+  };
+
+  const downloadFile = (filename: string, content: string, mime: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mime }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportVault = (format: 'json' | 'opml') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(`cybergit-vault-${date}.json`, exportVaultJson(favorites), 'application/json');
+    } else {
+      downloadFile(`cybergit-vault-${date}.opml`, exportVaultOpml(favorites), 'text/x-opml');
+    }
+    addLog(`[保险库] 已导出 ${favorites.length} 项 (${format.toUpperCase()})。`);
+  };
+
+  const handleImportVault = (entries: VaultEntry[], strategy: ConflictStrategy) => {
+    const result = mergeVaultEntries(favorites, entries, strategy);
+    setFavorites(result.entries);
+    writeRecord(VAULT_RECORD, result.entries);
+    setShowImportModal(false);
+    addLog(`[保险库] 导入完成: 新增 ${result.added}，更新 ${result.updated}，未变 ${result.unchanged}。`);
+  };
+
+  // Re-check every saved repo against GitHub and flag notable changes since saving
+  const refreshVault = async (entries: VaultEntry[], origin: RunOrigin = 'user') => {
+    if (entries.length === 0 || isRefreshingVault) return;
+    setIsRefreshingVault(true);
+    addLog(`[保险库] 正在复查 ${entries.length} 个收藏仓库...`);
+    try {
+      const result = await refreshVaultEntries(entries);
+      // Every vault write goes through the record, so it holds edits made while the check ran
+      const next = readRecord<VaultEntry[]>(VAULT_RECORD, []).map(entry => (result.updates[entry.name] ? { ...entry, ...result.updates[entry.name] } : entry));
+      writeRecord(VAULT_RECORD, next);
+      setFavorites(next);
+      recordStarSnapshots(next.filter(entry => result.updates[entry.name]));
+      result.raised.forEach(({ name, alert }) => addLog(`[保险库警报] ${name}: ${VAULT_ALERT_LABELS[alert.kind]} — ${alert.detail}`));
+      if (origin === 'schedule' && refreshSchedule.background) {
+        showNotices([archivedNotice(result.raised)]);
+      }
+      addLog(`[保险库] 复查完成: ${result.checked} 项已更新，${result.raised.length} 条新警报${result.skipped > 0 ? `，${result.skipped} 项因速率限制跳过` : ''}。`);
+    } catch (error: unknown) {
+      addLog(`[保险库] 复查失败: ${(error instanceof Error && error.message) || '未知网络故障'}`);
+    } finally {
+      setIsRefreshingVault(false);
+    }
+  };
+
   // Initial load
   useEffect(() => {
-    addLog('中枢接口已加载。默认接入: DeepSeek V3.2 Network。');
+    addLog(`中枢接口已加载。默认接入: ${aiProvider.label} Network。`);
     
-    // Favorites load
-    const storedFavs = localStorage.getItem(FAV_STORAGE_KEY);
-    if (storedFavs) {
-      try {
-        const parsed = JSON.parse(storedFavs);
-        if (Array.isArray(parsed) && parsed.length > 0 && typeof parsed[0] === 'string') {
-          console.warn("Detected legacy favorites format. Clearing.");
-          localStorage.removeItem(FAV_STORAGE_KEY);
-        } else {
-          setFavorites(parsed);
-        }
-      } catch(e) { console.error('Fav parse error'); }
-    }
+    listScanSnapshots().then(setScanHistory);
+
+    // Read the current GitHub budget for the header meter
+    pingGitHub();
 
     // Verify default connection logic
-    const initialKey = deepseekKeyRef.current;
-    if (initialKey) {
-        verifyCurrentConnection(initialKey, 'deepseek');
+    const initialConfig = providerConfigsRef.current[aiProvider.id];
+    if (isProviderConfigured(aiProvider, initialConfig)) {
+        verifyCurrentConnection(initialConfig, aiProvider);
     }
 
+    // Offline shell always; periodic background refresh only when the schedule asks for it
+    registerServiceWorker();
+    if (refreshSchedule.background) syncBackgroundRefresh();
+
     // Delay initial scan slightly
-    setTimeout(() => handleScan('3d', false), 500);
+    setTimeout(() => handleScan(activeTabRef.current, false, null, 'schedule'), 500);
+
+    // Stale vault: re-check after the initial scan has had its share of the GitHub budget
+    if (isVaultStale(favorites)) {
+      setTimeout(() => refreshVault(favorites, 'schedule'), 5000);
+    }
   }, []);
 
-  const switchProvider = () => {
-    const next = aiProvider === 'google' ? 'deepseek' : 'google';
-    setAiProvider(next);
+  // The service worker wrote new records while this page held an older copy in memory
+  useEffect(() => {
+    return subscribeBackgroundRefresh(async () => {
+      await reloadStorage();
+      setFavorites(readRecord<VaultEntry[]>(VAULT_RECORD, []));
+      listScanSnapshots().then(setScanHistory);
+      addLog('[系统] 后台刷新已完成，已同步保险库与扫描历史。');
+    });
+  }, []);
+
+  const switchProvider = (id: string) => {
+    if (id === aiProvider.id) return;
+    const next = getProvider(id);
+    setProviderId(next.id);
+    saveSelectedProviderId(next.id);
     
     // Reset status check for new provider
     setConnectionStatus('idle');
-    const nextKey = next === 'google' ? googleKeyRef.current : deepseekKeyRef.current;
-    if (nextKey) {
-        verifyCurrentConnection(nextKey, next);
+    const nextConfig = providerConfigsRef.current[next.id];
+    if (isProviderConfigured(next, nextConfig)) {
+        verifyCurrentConnection(nextConfig, next);
     }
     
-    addLog(`切换核心网络 -> ${next === 'google' ? 'Google Gemini' : 'DeepSeek V3.2'}`);
+    addLog(`切换核心网络 -> ${next.label}`);
   };
 
   const formatLastUpdated = (ts: number | null) => {
@@ -332,7 +667,16 @@ const App: React.FC = () => {
     return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
   };
 
-  const displayedRepos = currentView === 'vault' ? favorites : repos;
+  // Vault entries (after the header filters) were saved with an old velocity; re-measure against the latest snapshots
+  const measuredFavorites = useMemo(
+    () => applyMeasuredVelocity(filterVault(favorites, vaultFilter), activeTab),
+    [favorites, activeTab, repos, vaultFilter]
+  );
+  const vaultFolders = useMemo(() => listFolders(favorites), [favorites]);
+  const vaultTags = useMemo(() => listPersonalTags(favorites), [favorites]);
+  const baseRepos = currentView === 'vault' ? measuredFavorites : currentView === 'scanner' ? repos : [];
+  const resultLanguages = useMemo(() => listLanguages(baseRepos), [baseRepos]);
+  const displayedRepos = useMemo(() => applyResultQuery(baseRepos, resultQuery), [baseRepos, resultQuery]);
 
   // Render Status Badge
   const renderConnectionBadge = () => {
@@ -353,65 +697,57 @@ const App: React.FC = () => {
       
       {/* API Key Modal */}
       {showKeyModal && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
-           <div className={`bg-[#050505] border-2 w-full max-w-md p-6 shadow-[0_0_30px_rgba(0,0,0,0.5)] relative transition-colors duration-500
-                ${aiProvider === 'deepseek' ? 'border-indigo-500 shadow-indigo-500/30' : 'border-green-500 shadow-green-500/30'}
-           `}>
-              <h3 className={`text-xl font-cyber mb-4 tracking-wider flex items-center gap-2
-                 ${aiProvider === 'deepseek' ? 'text-indigo-400' : 'text-green-400'}
-              `}>
-                <span className={`w-2 h-2 rounded-full animate-pulse
-                    ${aiProvider === 'deepseek' ? 'bg-indigo-500' : 'bg-green-500'}
-                `}></span>
-                {aiProvider === 'deepseek' ? 'DEEPSEEK' : 'GOOGLE GEMINI'} 密钥配置
-              </h3>
-              <p className="text-xs text-gray-400 font-mono mb-4">
-                 {aiProvider === 'deepseek' 
-                    ? '请输入您的 API Key 以接入 DeepSeek V3.2 网络。密钥仅存储在本地浏览器中。'
-                    : '请输入您的 Google Gemini API Key 以启用搜索和图像生成。密钥仅存储在本地浏览器中。'
-                 }
-              </p>
-              <input 
-                 ref={keyInputRef}
-                 defaultValue={aiProvider === 'deepseek' ? deepseekKey : googleKey}
-                 type="password"
-                 placeholder={aiProvider === 'deepseek' ? "sk-..." : "AIzaSy..."}
-                 className={`w-full bg-gray-900/50 border border-gray-700 font-mono text-sm p-3 mb-2 focus:outline-none transition-all placeholder-gray-700
-                    ${aiProvider === 'deepseek' 
-                        ? 'text-indigo-100 focus:border-indigo-500 focus:shadow-[0_0_10px_rgba(99,102,241,0.3)]' 
-                        : 'text-green-100 focus:border-green-500 focus:shadow-[0_0_10px_rgba(34,197,94,0.3)]'}
-                 `}
-              />
-              
-              {/* Modal Status Feedback */}
-              <div className="h-6 mb-4 flex items-center">
-                 {connectionStatus === 'checking' && <span className="text-yellow-500 text-xs font-mono animate-pulse">正在验证密钥有效性...</span>}
-                 {connectionStatus === 'success' && <span className="text-green-500 text-xs font-mono">√ 验证成功：API 连接已就绪</span>}
-                 {connectionStatus === 'error' && <span className="text-red-500 text-xs font-mono">× 验证失败：无效的密钥或网络错误</span>}
-              </div>
+        <KeyModal
+          key={`${aiProvider.id}-${vaultState}`}
+          provider={aiProvider}
+          currentConfig={providerConfigs[aiProvider.id] || { apiKey: '' }}
+          githubToken={githubToken}
+          connectionStatus={connectionStatus}
+          vaultState={vaultState}
+          onSave={saveKey}
+          onUnlock={unlockKeys}
+          onEnableVault={enableKeyVault}
+          onDisableVault={disableKeyVault}
+          onClose={() => setShowKeyModal(false)}
+        />
+      )}
 
-              <div className="flex gap-4">
-                 <button 
-                   onClick={() => setShowKeyModal(false)}
-                   className="flex-1 py-2 font-mono text-xs uppercase text-gray-500 hover:text-white border border-transparent hover:border-gray-700 transition-all"
-                 >
-                   {connectionStatus === 'success' ? '关闭' : '取消'}
-                 </button>
-                 <button 
-                   onClick={saveKey}
-                   disabled={connectionStatus === 'checking'}
-                   className={`flex-1 py-2 font-mono text-xs uppercase text-white transition-all shadow-[0_0_15px_rgba(0,0,0,0.4)]
-                      ${aiProvider === 'deepseek' 
-                        ? 'bg-indigo-600 hover:bg-indigo-500 shadow-indigo-500/30' 
-                        : 'bg-green-600 hover:bg-green-500 shadow-green-500/30'}
-                      ${connectionStatus === 'checking' ? 'opacity-50 cursor-not-allowed' : ''}
-                   `}
-                 >
-                   {connectionStatus === 'checking' ? '验证中...' : '保存并验证'}
-                 </button>
-              </div>
-           </div>
-        </div>
+      {/* Hunt Profile Modal */}
+      {editingProfile !== undefined && (
+        <HuntProfileModal
+          profile={editingProfile}
+          frames={uniqueFrames([...pinnedFrames, ...PRESET_FRAMES])}
+          onSave={saveHuntProfile}
+          onDelete={deleteHuntProfile}
+          onClose={() => setEditingProfile(undefined)}
+        />
+      )}
+
+      {/* Refresh Schedule Modal */}
+      {showScheduleModal && (
+        <ScheduleModal
+          schedule={refreshSchedule}
+          onSave={saveSchedule}
+          onClose={() => setShowScheduleModal(false)}
+        />
+      )}
+
+      {/* Time Window Modal */}
+      {showFrameModal && (
+        <TimeFrameModal
+          pinned={pinnedFrames}
+          onSave={savePinned}
+          onClose={() => setShowFrameModal(false)}
+        />
+      )}
+
+      {/* Vault Import Modal */}
+      {showImportModal && (
+        <VaultImportModal
+          existing={favorites}
+          onImport={handleImportVault}
+          onClose={() => setShowImportModal(false)}
+        />
       )}
 
       {/* Header */}
@@ -444,9 +780,43 @@ const App: React.FC = () => {
            >
              <span>💾</span> 数据保险库 ({favorites.length})
            </button>
+           <button 
+             onClick={() => setCurrentView('history')}
+             className={`px-4 py-2 font-mono text-xs uppercase flex items-center gap-2 transition-all
+               ${currentView === 'history' ? 'bg-cyan-900/30 text-cyan-400 border border-cyan-500/50 shadow-[0_0_10px_rgba(6,182,212,0.3)]' : 'text-gray-500 hover:text-gray-300'}
+             `}
+           >
+             <span>🕘</span> 历史 ({scanHistory.length})
+           </button>
+           <button 
+             onClick={() => setCurrentView('compare')}
+             className={`px-4 py-2 font-mono text-xs uppercase flex items-center gap-2 transition-all
+               ${currentView === 'compare' ? 'bg-cyan-900/30 text-cyan-400 border border-cyan-500/50 shadow-[0_0_10px_rgba(6,182,212,0.3)]' : 'text-gray-500 hover:text-gray-300'}
+             `}
+           >
+             <span>⚖</span> 对比
+           </button>
         </div>
 
-        <CountDown />
+        <div className="flex gap-6 items-end">
+          {vaultState !== 'off' && (
+            <button
+              onClick={vaultState === 'unlocked' ? lockKeys : () => setShowKeyModal(true)}
+              className={`text-[10px] font-mono px-2 py-1 border rounded-sm transition-colors uppercase
+                ${vaultState === 'unlocked' ? 'border-green-700/50 text-green-400 hover:bg-green-900/20' : 'border-yellow-600/50 text-yellow-500 hover:bg-yellow-900/20'}
+              `}
+              title={vaultState === 'unlocked' ? '锁定密钥保险箱并清除内存中的密钥' : '输入口令解锁密钥'}
+            >
+              {vaultState === 'unlocked' ? '🔓 LOCK' : '🔒 UNLOCK'}
+            </button>
+          )}
+          <RateLimitMeter rateLimit={rateLimit} hasToken={!!githubToken} />
+          <CountDown
+            schedule={refreshSchedule}
+            onElapsed={handleCheckpoint}
+            onConfigure={() => setShowScheduleModal(true)}
+          />
+        </div>
       </header>
 
       {/* Control Panel (Only visible in Scanner View) */}
@@ -454,22 +824,56 @@ const App: React.FC = () => {
         <div className="flex flex-col md:flex-row gap-6 mb-8 items-end animate-fade-in">
           {/* Tabs */}
           <div className="flex gap-2 bg-gray-900/50 p-1 border border-gray-800 rounded-sm w-full md:w-auto overflow-x-auto">
-            {(['3d', '7d', '14d'] as TimeFrame[]).map((tab) => (
+            {pinnedFrames.map((tab) => (
               <button
-                key={tab}
+                key={frameKey(tab)}
                 onClick={() => {
                   handleScan(tab, false);
                 }}
                 className={`
                   flex-1 md:flex-none px-4 md:px-6 py-3 md:py-2 font-mono font-bold text-base md:text-sm transition-all whitespace-nowrap
-                  ${activeTab === tab 
+                  ${sameFrame(activeTab, tab) && !activeProfile
                     ? 'bg-cyan-500 text-black shadow-[0_0_15px_rgba(6,182,212,0.5)]' 
                     : 'text-gray-500 hover:text-gray-300 hover:bg-white/5'}
                 `}
               >
-                {tab === '3d' ? '近3日' : tab === '7d' ? '近7日' : '近14日'}
+                {frameLabel(tab)}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowFrameModal(true)}
+              className="px-3 py-2 font-mono text-sm text-gray-600 hover:text-cyan-400 transition-colors"
+              title="自定义时间窗口"
+            >
+              ⚙
+            </button>
+
+            {/* Hunt profile tabs: click to scan, click again to edit */}
+            {huntProfiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => {
+                  if (activeProfile?.id === profile.id) setEditingProfile(profile);
+                  else handleScan(profile.timeFrame, false, profile);
+                }}
+                className={`
+                  flex-1 md:flex-none px-4 py-3 md:py-2 font-mono font-bold text-base md:text-sm transition-all whitespace-nowrap border-l border-gray-800
+                  ${activeProfile?.id === profile.id
+                    ? 'bg-fuchsia-600 text-white shadow-[0_0_15px_rgba(217,70,239,0.5)]'
+                    : 'text-fuchsia-400/70 hover:text-fuchsia-300 hover:bg-white/5'}
+                `}
+                title={activeProfile?.id === profile.id ? '再次点击编辑' : `${profile.keywords.join(', ')} · ${frameLabel(profile.timeFrame)}`}
+              >
+                ◎ {profile.name}
               </button>
             ))}
+            <button
+              onClick={() => setEditingProfile(null)}
+              className="px-3 py-2 font-mono text-sm text-gray-600 hover:text-fuchsia-400 transition-colors"
+              title="新建狩猎目标"
+            >
+              +
+            </button>
           </div>
 
           {/* AI Provider Switch & Last Updated */}
@@ -477,17 +881,7 @@ const App: React.FC = () => {
             <div className="flex flex-col items-end mb-2">
                 <span className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">核心处理单元</span>
                 <div className="flex gap-1 items-center">
-                   <button 
-                    onClick={switchProvider}
-                    className={`text-xs font-mono px-2 py-0.5 border rounded-sm transition-all flex items-center gap-2
-                        ${aiProvider === 'google' 
-                            ? 'border-green-500/50 text-green-400 bg-green-900/10' 
-                            : 'border-indigo-500/50 text-indigo-400 bg-indigo-900/10'}
-                    `}
-                    >
-                    <span className={`w-1.5 h-1.5 rounded-full ${aiProvider === 'google' ? 'bg-green-500' : 'bg-indigo-500'}`}></span>
-                    {aiProvider === 'google' ? 'GEMINI-2.5-FLASH' : 'DEEPSEEK-V3.2'}
-                   </button>
+                   <ProviderSelector activeId={aiProvider.id} onSelect={switchProvider} />
                    
                    {/* Connection Badge */}
                    {renderConnectionBadge()}
@@ -495,19 +889,15 @@ const App: React.FC = () => {
                    {/* Key Config Button */}
                    <button 
                      onClick={() => setShowKeyModal(true)}
-                     className={`text-[10px] font-mono px-2 py-0.5 border rounded-sm transition-colors ml-2
-                        ${aiProvider === 'google'
-                            ? 'border-green-500/30 text-green-300 hover:bg-green-500/20'
-                            : 'border-indigo-500/30 text-indigo-300 hover:bg-indigo-500/20'}
-                     `}
+                     className={`text-[10px] font-mono px-2 py-0.5 border rounded-sm transition-colors ml-2 ${theme.keyButton}`}
                      title="配置 API Key"
                    >
                      KEY
                    </button>
                 </div>
             </div>
-            <div>
-                <span className="text-[10px] text-gray-500 uppercase tracking-wider mr-2">上次同步</span>
+            <div className="flex items-center justify-end gap-3">
+                <span className="text-[10px] text-gray-500 uppercase tracking-wider">上次同步</span>
                 <span className="text-xs font-mono text-cyan-500/80 font-bold">
                     {formatLastUpdated(lastUpdated)}
                 </span>
@@ -527,15 +917,15 @@ const App: React.FC = () => {
             
             {status === AppStatus.SCANNING && (
               <div className="relative flex h-3 w-3">
-                <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${aiProvider === 'deepseek' ? 'bg-indigo-400' : 'bg-fuchsia-400'}`}></span>
-                <span className={`relative inline-flex rounded-full h-3 w-3 shadow-[0_0_10px_rgba(217,70,239,0.8)] ${aiProvider === 'deepseek' ? 'bg-indigo-500' : 'bg-fuchsia-500'}`}></span>
+                <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${theme.ping}`}></span>
+                <span className={`relative inline-flex rounded-full h-3 w-3 shadow-[0_0_10px_rgba(217,70,239,0.8)] ${theme.pingCore}`}></span>
               </div>
             )}
 
             <CyberButton 
-              onClick={() => handleScan(activeTab, true)}
+              onClick={() => handleScan(activeTab, true, activeProfile)}
               disabled={status === AppStatus.SCANNING}
-              variant={aiProvider === 'deepseek' ? 'cyan' : 'pink'}
+              variant={theme.buttonVariant}
               className="flex-1 md:flex-none w-full md:w-auto"
             >
               {status === AppStatus.SCANNING ? '系统扫描中...' : '立即精选更新'}
@@ -549,25 +939,11 @@ const App: React.FC = () => {
         <div className="md:hidden flex justify-between items-center mb-4 px-1">
              <span className="text-xs font-mono text-gray-500">{formatLastUpdated(lastUpdated)}</span>
              <div className="flex gap-2 items-center">
-                 <button 
-                    onClick={switchProvider}
-                    className={`text-xs font-mono px-3 py-1 border rounded-sm transition-all flex items-center gap-2
-                    ${aiProvider === 'google' 
-                        ? 'border-green-500/50 text-green-400 bg-green-900/10' 
-                        : 'border-indigo-500/50 text-indigo-400 bg-indigo-900/10'}
-                    `}
-                >
-                    <span className={`w-1.5 h-1.5 rounded-full ${aiProvider === 'google' ? 'bg-green-500' : 'bg-indigo-500'}`}></span>
-                    {aiProvider === 'google' ? 'GEMINI' : 'DEEPSEEK'}
-                </button>
+                 <ProviderSelector activeId={aiProvider.id} onSelect={switchProvider} compact />
                  {renderConnectionBadge()}
                  <button 
                    onClick={() => setShowKeyModal(true)}
-                   className={`text-xs font-mono px-3 py-1 border rounded-sm
-                      ${aiProvider === 'google' 
-                        ? 'border-green-500/30 text-green-300 hover:bg-green-500/20' 
-                        : 'border-indigo-500/30 text-indigo-300 hover:bg-indigo-500/20'}
-                   `}
+                   className={`text-xs font-mono px-3 py-1 border rounded-sm ${theme.keyButton}`}
                  >
                    KEY
                  </button>
@@ -581,50 +957,166 @@ const App: React.FC = () => {
            <div>
              <h2 className="text-2xl font-cyber text-fuchsia-500">DATA VAULT // 收藏空间</h2>
              <p className="font-mono text-xs text-fuchsia-900/80 mt-1">存储的神经元网络链接</p>
+             <div className="mt-3">
+               <VaultFilters filter={vaultFilter} folders={vaultFolders} tags={vaultTags} onChange={setVaultFilter} />
+             </div>
+           </div>
+           <div className="flex items-center gap-3">
+             <div className="flex gap-1 font-mono text-[10px] uppercase">
+               <button
+                 onClick={() => refreshVault(favorites)}
+                 disabled={favorites.length === 0 || isRefreshingVault}
+                 className="px-2 py-1 border border-fuchsia-800 text-fuchsia-400 hover:bg-fuchsia-900/30 rounded-sm transition-colors disabled:opacity-40"
+               >
+                 {isRefreshingVault ? '复查中...' : '刷新状态'}
+               </button>
+               <button
+                 onClick={() => setShowImportModal(true)}
+                 className="px-2 py-1 border border-fuchsia-800 text-fuchsia-400 hover:bg-fuchsia-900/30 rounded-sm transition-colors"
+               >
+                 导入
+               </button>
+               <button
+                 onClick={() => handleExportVault('json')}
+                 disabled={favorites.length === 0}
+                 className="px-2 py-1 border border-fuchsia-800 text-fuchsia-400 hover:bg-fuchsia-900/30 rounded-sm transition-colors disabled:opacity-40"
+               >
+                 JSON
+               </button>
+               <button
+                 onClick={() => handleExportVault('opml')}
+                 disabled={favorites.length === 0}
+                 className="px-2 py-1 border border-fuchsia-800 text-fuchsia-400 hover:bg-fuchsia-900/30 rounded-sm transition-colors disabled:opacity-40"
+               >
+                 OPML
+               </button>
+             </div>
+             <CyberButton 
+                onClick={handleCopyReport}
+                variant="green"
+                disabled={favorites.length === 0}
+              >
+                导出收藏目录
+              </CyberButton>
            </div>
-           <CyberButton 
-              onClick={handleCopyReport}
-              variant="green"
-              disabled={favorites.length === 0}
-            >
-              导出收藏目录
-            </CyberButton>
         </div>
       )}
 
+      {/* History Header (Only visible in History View) */}
+      {currentView === 'history' && (
+        <div className="flex justify-between items-center mb-8 border-b border-cyan-900/30 pb-4 animate-fade-in">
+           <div>
+             <h2 className="text-2xl font-cyber text-cyan-400">SCAN LOG // 历史检查点</h2>
+             <p className="font-mono text-xs text-cyan-900/80 mt-1">每次扫描的完整快照，与上一次同窗口扫描对比</p>
+           </div>
+        </div>
+      )}
+
+      {/* Compare Header (Only visible in Compare View) */}
+      {currentView === 'compare' && (
+        <div className="flex justify-between items-center mb-8 border-b border-cyan-900/30 pb-4 animate-fade-in">
+           <div>
+             <h2 className="text-2xl font-cyber text-cyan-400">CROSSCHECK // 结果对比</h2>
+             <p className="font-mono text-xs text-cyan-900/80 mt-1">两次扫描或两个模型的独有、共同目标与排名变化</p>
+           </div>
+        </div>
+      )}
+
+      {/* Result Toolbar (Scanner & Vault) */}
+      {(currentView === 'scanner' || currentView === 'vault') && baseRepos.length > 0 && (
+        <ResultToolbar
+          query={resultQuery}
+          languages={resultLanguages}
+          shown={displayedRepos.length}
+          total={baseRepos.length}
+          onChange={setResultQuery}
+        />
+      )}
+
       {/* Main Content Grid */}
       <main className="flex-1 relative min-h-[400px]">
         {/* Loading Overlay */}
-        {currentView === 'scanner' && status === AppStatus.SCANNING && (
+        {currentView === 'scanner' && status === AppStatus.SCANNING && repos.length === 0 && (
           <div className="absolute inset-0 flex items-center justify-center z-20 bg-black/80 backdrop-blur-sm transition-opacity duration-300">
             <div className="text-center">
-              <div className={`inline-block w-16 h-16 border-4 border-t-transparent border-l-transparent rounded-full animate-spin mb-4
-                 ${aiProvider === 'deepseek' ? 'border-indigo-500 border-b-indigo-300' : 'border-cyan-500 border-b-fuchsia-500'}
-              `}></div>
-              <div className={`font-cyber text-xl animate-pulse ${aiProvider === 'deepseek' ? 'text-indigo-400' : 'text-cyan-400'}`}>
-                {aiProvider === 'deepseek' ? 'DEEPSEEK V3.2 扫描中...' : '正在接入主网...'}
+              <div className={`inline-block w-16 h-16 border-4 border-t-transparent border-l-transparent rounded-full animate-spin mb-4 ${theme.spinner}`}></div>
+              <div className={`font-cyber text-xl animate-pulse ${theme.overlayText}`}>
+                {aiProvider.scanningTitle}
               </div>
               <div className="font-mono text-xs text-gray-500 mt-2">
-                {aiProvider === 'deepseek' ? '神经元网络分析 / 验证 GitHub 节点' : '解密 GitHub API 信号流'}
+                {aiProvider.scanningHint}
               </div>
+              {scanProgress && (
+                <div className="font-mono text-xs text-gray-300 mt-3">{formatScanProgress(scanProgress)}</div>
+              )}
+              <button
+                onClick={cancelScan}
+                className="mt-6 px-4 py-1 font-mono text-xs uppercase border border-gray-700 text-gray-400 hover:text-red-400 hover:border-red-500/50 transition-colors"
+              >
+                取消扫描
+              </button>
             </div>
           </div>
         )}
 
+        {/* Results already streaming in: keep scanning status out of the way of the cards */}
+        {currentView === 'scanner' && status === AppStatus.SCANNING && repos.length > 0 && (
+          <div className="sticky top-0 z-20 mb-4 flex items-center gap-3 border border-gray-800 bg-black/90 backdrop-blur-sm px-3 py-2 font-mono text-xs">
+            <span className={`inline-block w-3 h-3 border-2 border-t-transparent border-l-transparent rounded-full animate-spin ${theme.spinner}`}></span>
+            <span className={`${theme.overlayText} truncate`}>
+              {scanProgress ? formatScanProgress(scanProgress) : aiProvider.scanningTitle}
+            </span>
+            <span className="text-gray-500 flex-shrink-0">已确认 {repos.length} 个目标</span>
+            <button
+              onClick={cancelScan}
+              className="ml-auto px-3 py-0.5 uppercase border border-gray-700 text-gray-400 hover:text-red-400 hover:border-red-500/50 transition-colors flex-shrink-0"
+            >
+              取消扫描
+            </button>
+          </div>
+        )}
+
+        {currentView === 'history' && (
+          <HistoryView snapshots={scanHistory} openedId={openedSnapshotId} onOpen={openSnapshot} />
+        )}
+
+        {currentView === 'compare' && (
+          <CompareView
+            snapshots={scanHistory}
+            timeFrame={activeTab}
+            isFavorite={repo => favorites.some(f => f.name === repo.name)}
+            onToggleFavorite={toggleFavorite}
+            googleApiKey={providerConfigs['google']?.apiKey}
+            onRunProviders={runProviderComparison}
+          />
+        )}
+
         {/* Empty States */}
-        {displayedRepos.length === 0 && status !== AppStatus.SCANNING && status !== AppStatus.ERROR && (
+        {(currentView === 'scanner' || currentView === 'vault') && displayedRepos.length === 0 && status !== AppStatus.SCANNING && status !== AppStatus.ERROR && (
           <div className="h-full flex flex-col items-center justify-center text-gray-700 border-2 border-dashed border-gray-900 rounded-lg p-12">
             {currentView === 'scanner' ? (
                <>
                 <div className="text-6xl mb-4 opacity-20">📡</div>
-                <p className="font-mono text-lg">未检测到数据</p>
-                <p className="font-mono text-sm mt-2">请点击上方按钮以获取目标。</p>
+                {repos.length > 0 && isQueryActive(resultQuery) ? (
+                  <p className="font-mono text-lg">没有符合筛选条件的目标</p>
+                ) : (
+                  <>
+                    <p className="font-mono text-lg">未检测到数据</p>
+                    <p className="font-mono text-sm mt-2">请点击上方按钮以获取目标。</p>
+                  </>
+                )}
                </>
             ) : (
                <>
                 <div className="text-6xl mb-4 opacity-20 text-fuchsia-900">💾</div>
-                <p className="font-mono text-lg text-fuchsia-900/60">数据保险库为空</p>
-                <p className="font-mono text-sm mt-2 text-gray-600">在扫描器中点击星标以保存项目。</p>
+                {favorites.length > 0 ? (
+                  <p className="font-mono text-lg text-fuchsia-900/60">没有符合筛选条件的条目</p>
+                ) : (
+                  <>
+                    <p className="font-mono text-lg text-fuchsia-900/60">数据保险库为空</p>
+                    <p className="font-mono text-sm mt-2 text-gray-600">在扫描器中点击星标以保存项目。</p>
+                  </>
+                )}
                </>
             )}
           </div>
@@ -639,18 +1131,33 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Scan-level grounding sources */}
+        {currentView === 'scanner' && status !== AppStatus.SCANNING && (
+          <SourcePanel sources={scanSources} />
+        )}
+
         {/* The Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {displayedRepos.map((repo, index) => (
-            <RepoCard 
-              key={`${repo.name}-${index}`} 
-              repo={repo} 
-              index={index}
-              isFavorite={favorites.some(f => f.name === repo.name)}
-              onToggleFavorite={() => toggleFavorite(repo)}
-              googleApiKey={googleKey}
-            />
-          ))}
+          {displayedRepos.map((repo, index) => {
+            const vaultEntry = currentView === 'vault' ? favorites.find(f => f.name === repo.name) : undefined;
+            return (
+              <RepoCard 
+                key={`${repo.name}-${index}`} 
+                repo={repo} 
+                index={index}
+                isFavorite={favorites.some(f => f.name === repo.name)}
+                onToggleFavorite={() => toggleFavorite(repo)}
+                googleApiKey={providerConfigs['google']?.apiKey}
+                footer={vaultEntry && (
+                  <VaultEntryPanel
+                    entry={vaultEntry}
+                    folders={vaultFolders}
+                    onUpdate={patch => updateVaultEntry(vaultEntry.name, patch)}
+                  />
+                )}
+              />
+            );
+          })}
         </div>
       </main>
 
@@ -659,9 +1166,9 @@ const App: React.FC = () => {
 
       {/* Footer / Logs */}
       <footer className="mt-12">
-        <SystemLog status={status} logs={logs} />
+        <SystemLog status={status} logs={logs} progress={status === AppStatus.SCANNING ? scanProgress : null} />
         <div className="flex justify-between items-center text-xs text-gray-500 font-mono mt-2 uppercase">
-          <span>安全连接：{aiProvider === 'deepseek' ? 'DEEPSEEK-V3.2 加密' : 'GOOGLE-GEMINI 加密'}</span>
+          <span>安全连接：{aiProvider.badge} 加密</span>
           <span>CYBERGIT_HUNTER © 2077</span>
         </div>
       </footer>
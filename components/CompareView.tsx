@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Repo, ScanResult, TimeFrame } from '../types';
+import { getProvider, listProviders } from '../services/providers';
+import { PickQuality, diffRepoSets, summarizePicks } from '../services/scanDiff';
+import { frameLabel } from '../services/timeFrames';
+import CyberButton from './CyberButton';
+import RepoCard from './RepoCard';
+
+interface CompareViewProps {
+  snapshots: ScanResult[]; // Newest first
+  timeFrame: TimeFrame;     // Window used for live provider runs
+  isFavorite: (repo: Repo) => boolean;
+  onToggleFavorite: (repo: Repo) => void;
+  googleApiKey?: string;
+  // Scan the same window with two providers; resolves to the stored snapshots (null = that run failed)
+  onRunProviders: (providerIds: [string, string]) => Promise<(ScanResult | null)[]>;
+}
+
+const snapshotLabel = (scan: ScanResult) => {
+  const date = new Date(scan.timestamp);
+  const time = `${date.getMonth() + 1}/${date.getDate()} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  const provider = scan.providerId ? getProvider(scan.providerId).shortBadge : '?';
+  const profile = scan.profileName ? ` · ◎${scan.profileName}` : '';
+  return `${time} · ${provider} · ${frameLabel(scan.timeFrame)}${profile} · ${scan.repos.length}项`;
+};
+
+const QualityPanel: React.FC<{ side: 'A' | 'B'; scan: ScanResult; quality: PickQuality }> = ({ side, scan, quality }) => {
+  const provider = scan.providerId ? getProvider(scan.providerId) : null;
+  return (
+    <div className="border border-gray-800 bg-black/40 p-3 font-mono text-xs flex-1">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-cyan-400 font-bold">{side}</span>
+        {provider && <span className={`px-2 py-0.5 border rounded-sm ${provider.theme.chip}`}>{provider.badge}</span>}
+        <span className="text-gray-500">{frameLabel(scan.timeFrame)}</span>
+        {scan.profileName && <span className="text-fuchsia-400">◎ {scan.profileName}</span>}
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-400">
+        <span>共识率</span><span className="text-right text-cyan-400">{Math.round(quality.overlap * 100)}%</span>
+        <span>中位星标</span><span className="text-right text-yellow-500/80">{quality.medianStars !== null ? `★ ${quality.medianStars.toLocaleString()}` : '—'}</span>
+        <span>已归档</span><span className={`text-right ${quality.archived > 0 ? 'text-fuchsia-400' : 'text-gray-600'}`}>{quality.archived}</span>
+        <span>未验证</span><span className={`text-right ${quality.unverified > 0 ? 'text-orange-400' : 'text-gray-600'}`}>{quality.unverified}</span>
+      </div>
+    </div>
+  );
+};
+
+// Side-by-side comparison of two stored scans: unique picks, shared picks and rank movement
+const CompareView: React.FC<CompareViewProps> = ({ snapshots, timeFrame, isFavorite, onToggleFavorite, googleApiKey, onRunProviders }) => {
+  const [leftId, setLeftId] = useState<number | undefined>(snapshots[1]?.id);
+  const [rightId, setRightId] = useState<number | undefined>(snapshots[0]?.id);
+  const providers = listProviders();
+  const [runIds, setRunIds] = useState<[string, string]>([providers[0].id, providers[1]?.id || providers[0].id]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Pick defaults once history arrives (it loads asynchronously)
+  useEffect(() => {
+    if (leftId === undefined && snapshots.length > 1) setLeftId(snapshots[1].id);
+    if (rightId === undefined && snapshots.length > 0) setRightId(snapshots[0].id);
+  }, [snapshots]);
+
+  const left = snapshots.find(s => s.id === leftId);
+  const right = snapshots.find(s => s.id === rightId);
+
+  const diff = useMemo(() => (left && right ? diffRepoSets(left.repos, right.repos) : null), [left, right]);
+
+  const runProviders = async () => {
+    setIsRunning(true);
+    try {
+      const [a, b] = await onRunProviders(runIds);
+      if (a?.id !== undefined) setLeftId(a.id);
+      if (b?.id !== undefined) setRightId(b.id);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const renderSelect = (value: number | undefined, onChange: (id: number) => void, side: 'A' | 'B') => (
+    <label className="flex items-center gap-2 flex-1 min-w-0">
+      <span className="text-cyan-400 font-bold">{side}</span>
+      <select
+        value={value ?? ''}
+        onChange={e => onChange(Number(e.target.value))}
+        className="flex-1 min-w-0 bg-black border border-gray-800 text-gray-300 px-2 py-1 focus:outline-none focus:border-cyan-500"
+      >
+        <option value="" disabled>选择扫描存档</option>
+        {snapshots.map(scan => (
+          <option key={scan.id} value={scan.id}>{snapshotLabel(scan)}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const renderCard = (repo: Repo, rank: number) => (
+    <RepoCard
+      repo={repo}
+      index={rank - 1}
+      isFavorite={isFavorite(repo)}
+      onToggleFavorite={() => onToggleFavorite(repo)}
+      googleApiKey={googleApiKey}
+      compact
+    />
+  );
+
+  return (
+    <div className="font-mono space-y-6">
+      {/* Inputs */}
+      <div className="border border-gray-800 bg-black/40 p-4 space-y-4 text-xs">
+        <div className="flex flex-col md:flex-row gap-3">
+          {renderSelect(leftId, setLeftId, 'A')}
+          {renderSelect(rightId, setRightId, 'B')}
+        </div>
+        <div className="flex flex-col md:flex-row md:items-center gap-3 border-t border-gray-900 pt-4">
+          <span className="text-gray-500 uppercase tracking-wider">同窗口并行扫描 ({frameLabel(timeFrame)})</span>
+          {([0, 1] as const).map(slot => (
+            <select
+              key={slot}
+              value={runIds[slot]}
+              onChange={e => setRunIds(prev => (slot === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))}
+              className="bg-black border border-gray-800 text-gray-300 px-2 py-1 focus:outline-none focus:border-cyan-500"
+            >
+              {providers.map(p => <option key={p.id} value={p.id}>{slot === 0 ? 'A' : 'B'}: {p.label}</option>)}
+            </select>
+          ))}
+          <CyberButton
+            onClick={runProviders}
+            disabled={isRunning || runIds[0] === runIds[1]}
+            className="md:ml-auto"
+          >
+            {isRunning ? '双核扫描中...' : '运行对比'}
+          </CyberButton>
+        </div>
+      </div>
+
+      {!diff || !left || !right ? (
+        <div className="flex flex-col items-center justify-center text-gray-700 border-2 border-dashed border-gray-900 rounded-lg p-12">
+          <div className="text-6xl mb-4 opacity-20">⚖</div>
+          <p className="text-lg">选择两个扫描存档</p>
+          <p className="text-sm mt-2">或运行一次双模型并行扫描。</p>
+        </div>
+      ) : (
+        <>
+          {/* Trust signals */}
+          <div className="flex flex-col md:flex-row gap-4">
+            <QualityPanel side="A" scan={left} quality={summarizePicks(left.repos, diff.both.length)} />
+            <QualityPanel side="B" scan={right} quality={summarizePicks(right.repos, diff.both.length)} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <section>
+              <h3 className="text-xs text-cyan-700 uppercase tracking-widest border-b border-cyan-900/40 pb-1 mb-3">仅 A ({diff.onlyA.length})</h3>
+              <div className="space-y-4">
+                {diff.onlyA.map(entry => <div key={entry.repo.name}>{renderCard(entry.repo, entry.rank)}</div>)}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-xs text-cyan-700 uppercase tracking-widest border-b border-cyan-900/40 pb-1 mb-3">共同 ({diff.both.length})</h3>
+              <div className="space-y-4">
+                {diff.both.map(entry => (
+                  <div key={entry.name}>
+                    <div className="text-[10px] mb-1 flex gap-2 text-gray-500">
+                      <span>A #{entry.a.rank} → B #{entry.b.rank}</span>
+                      {entry.rankDelta !== 0 && (
+                        <span className={entry.rankDelta > 0 ? 'text-green-500' : 'text-red-500'}>
+                          {entry.rankDelta > 0 ? `▲${entry.rankDelta}` : `▼${-entry.rankDelta}`}
+                        </span>
+                      )}
+                    </div>
+                    {renderCard(entry.a.repo, entry.a.rank)}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-xs text-cyan-700 uppercase tracking-widest border-b border-cyan-900/40 pb-1 mb-3">仅 B ({diff.onlyB.length})</h3>
+              <div className="space-y-4">
+                {diff.onlyB.map(entry => <div key={entry.repo.name}>{renderCard(entry.repo, entry.rank)}</div>)}
+              </div>
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
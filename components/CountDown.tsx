@@ -1,33 +1,33 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { RefreshSchedule, describeSchedule, getNextCheckpoint } from '../services/refreshSchedule';
 
-const CountDown: React.FC = () => {
+interface CountDownProps {
+  schedule: RefreshSchedule;
+  onElapsed?: () => void; // Fired once each time a checkpoint passes
+  onConfigure?: () => void;
+}
+
+const CountDown: React.FC<CountDownProps> = ({ schedule, onElapsed, onConfigure }) => {
   const [timeLeft, setTimeLeft] = useState('');
+  const onElapsedRef = useRef(onElapsed);
+  onElapsedRef.current = onElapsed;
 
   useEffect(() => {
+    let target = getNextCheckpoint(schedule);
+
     const calculateTimeLeft = () => {
-      const now = new Date();
-      // Targets: 5 AM and 5 PM
-      const target1 = new Date(now);
-      target1.setHours(5, 0, 0, 0);
-      
-      const target2 = new Date(now);
-      target2.setHours(17, 0, 0, 0);
-
-      let target = target1;
-      
-      if (now > target1 && now < target2) {
-        target = target2;
-      } else if (now > target2) {
-        target = target1;
-        target.setDate(target.getDate() + 1);
+      const now = Date.now();
+      if (now >= target) {
+        target = getNextCheckpoint(schedule, now);
+        onElapsedRef.current?.();
       }
 
-      const diff = target.getTime() - now.getTime();
-      
-      const h = Math.floor((diff / (1000 * 60 * 60)) % 24);
+      const diff = target - now;
+
+      const h = Math.floor(diff / (1000 * 60 * 60));
       const m = Math.floor((diff / (1000 * 60)) % 60);
       const s = Math.floor((diff / 1000) % 60);
-      
+
       return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
     };
 
@@ -38,11 +38,17 @@ const CountDown: React.FC = () => {
     setTimeLeft(calculateTimeLeft());
 
     return () => clearInterval(timer);
-  }, []);
+  }, [schedule]);
 
   return (
     <div className="flex flex-col items-end">
-      <span className="text-xs text-gray-500 uppercase tracking-widest font-medium">下一次自动扫描倒计时</span>
+      <button
+        onClick={onConfigure}
+        className="text-xs text-gray-500 uppercase tracking-widest font-medium hover:text-fuchsia-400 transition-colors"
+        title={`刷新计划: ${describeSchedule(schedule)}`}
+      >
+        {schedule.autoScan ? '下一次自动扫描倒计时' : '下一次缓存刷新倒计时'} ⚙
+      </button>
       <span className="text-3xl md:text-2xl font-cyber text-fuchsia-500 tabular-nums neon-text-pink">
         {timeLeft}
       </span>
@@ -50,4 +56,4 @@ const CountDown: React.FC = () => {
   );
 };
 
-export default CountDown;
\ No newline at end of file
+export default CountDown;
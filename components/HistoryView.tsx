@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { Repo, ScanResult } from '../types';
+import { getProvider } from '../services/providers';
+import { getScanChange } from '../services/scanHistory';
+import { frameLabel } from '../services/timeFrames';
+
+interface HistoryViewProps {
+  snapshots: ScanResult[]; // Newest first
+  openedId?: number;
+  onOpen: (scan: ScanResult) => void;
+}
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+const RepoNameList: React.FC<{ repos: Repo[]; sign: '+' | '-' }> = ({ repos, sign }) => (
+  <ul className="space-y-0.5">
+    {repos.map(repo => (
+      <li key={repo.name} className="truncate">
+        <span className={sign === '+' ? 'text-green-500' : 'text-red-500'}>{sign} </span>
+        <a href={repo.url} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-cyan-400 transition-colors">
+          {repo.name}
+        </a>
+      </li>
+    ))}
+  </ul>
+);
+
+// Timeline of stored scans grouped by day, with entered/dropped repos vs the previous scan
+const HistoryView: React.FC<HistoryViewProps> = ({ snapshots, openedId, onOpen }) => {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const groups = useMemo(() => {
+    const byDay = new Map<string, ScanResult[]>();
+    snapshots.forEach(scan => {
+      const day = new Date(scan.timestamp).toLocaleDateString('zh-CN');
+      byDay.set(day, [...(byDay.get(day) || []), scan]);
+    });
+    return Array.from(byDay.entries());
+  }, [snapshots]);
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-700 border-2 border-dashed border-gray-900 rounded-lg p-12">
+        <div className="text-6xl mb-4 opacity-20">🕘</div>
+        <p className="font-mono text-lg">暂无扫描记录</p>
+        <p className="font-mono text-sm mt-2">每次完成扫描后会自动存档。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 font-mono">
+      {groups.map(([day, scans]) => (
+        <section key={day}>
+          <h3 className="text-xs text-cyan-700 uppercase tracking-widest border-b border-cyan-900/40 pb-1 mb-3">{day}</h3>
+          <ul className="space-y-2">
+            {scans.map(scan => {
+              const change = getScanChange(scan, snapshots);
+              const provider = scan.providerId ? getProvider(scan.providerId) : null;
+              const isExpanded = expandedId === scan.id;
+              const isOpened = openedId !== undefined && openedId === scan.id;
+              const hasChange = change.entered.length > 0 || change.dropped.length > 0;
+
+              return (
+                <li
+                  key={scan.id}
+                  className={`border bg-black/40 p-3 text-xs transition-colors ${isOpened ? 'border-cyan-500/60' : 'border-gray-800 hover:border-gray-700'}`}
+                >
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                    <span className="text-cyan-400 font-bold">{formatTime(scan.timestamp)}</span>
+                    {provider && (
+                      <span className={`px-2 py-0.5 border rounded-sm ${provider.theme.chip}`}>{provider.badge}</span>
+                    )}
+                    <span className="text-gray-400">
+                      {frameLabel(scan.timeFrame)}
+                    </span>
+                    {scan.profileName && <span className="text-fuchsia-400">◎ {scan.profileName}</span>}
+                    <span className="text-gray-500">{scan.repos.length} 个目标</span>
+                    <span className="text-gray-600">耗时 {scan.scanTimeTaken}s</span>
+
+                    {change.previous ? (
+                      <button
+                        onClick={() => setExpandedId(isExpanded ? null : scan.id ?? null)}
+                        disabled={!hasChange}
+                        className="text-gray-500 hover:text-gray-300 disabled:hover:text-gray-500 transition-colors"
+                        title="与上一次同时间窗口扫描对比"
+                      >
+                        <span className="text-green-500">+{change.entered.length}</span>
+                        {' / '}
+                        <span className="text-red-500">-{change.dropped.length}</span>
+                        {hasChange && <span className={`inline-block ml-1 transition-transform ${isExpanded ? 'rotate-90' : ''}`}>▶</span>}
+                      </button>
+                    ) : (
+                      <span className="text-gray-700">首次记录</span>
+                    )}
+
+                    <button
+                      onClick={() => onOpen(scan)}
+                      className="ml-auto px-2 py-0.5 border border-cyan-800 text-cyan-500 hover:bg-cyan-900/30 rounded-sm transition-colors"
+                    >
+                      {isOpened ? '当前显示' : '载入'}
+                    </button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4 border-l border-cyan-900/50 pl-3">
+                      <div>
+                        <div className="text-[10px] text-gray-600 uppercase mb-1">新进入 ({change.entered.length})</div>
+                        <RepoNameList repos={change.entered} sign="+" />
+                      </div>
+                      <div>
+                        <div className="text-[10px] text-gray-600 uppercase mb-1">已掉出 ({change.dropped.length})</div>
+                        <RepoNameList repos={change.dropped} sign="-" />
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { HuntProfile, TimeFrame } from '../types';
+import { createProfileId } from '../services/huntProfiles';
+import { DEFAULT_FRAME, frameKey, frameLabel, sameFrame, uniqueFrames } from '../services/timeFrames';
+import { parseTagInput } from '../services/vault';
+
+interface HuntProfileModalProps {
+  profile: HuntProfile | null; // null = create a new profile
+  frames: TimeFrame[];         // Windows offered as choices (pinned + presets)
+  onSave: (profile: HuntProfile) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Create / edit / delete a topic-focused hunt profile
+const HuntProfileModal: React.FC<HuntProfileModalProps> = ({ profile, frames, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(profile?.name || '');
+  const [keywords, setKeywords] = useState(profile?.keywords.join(', ') || '');
+  const [languages, setLanguages] = useState(profile?.languages.join(', ') || '');
+  const [exclusions, setExclusions] = useState(profile?.exclusions.join(', ') || '');
+  const [timeFrame, setTimeFrame] = useState<TimeFrame>(profile?.timeFrame || DEFAULT_FRAME);
+  // Keep a custom window the profile already uses selectable
+  const choices = uniqueFrames(profile ? [...frames, profile.timeFrame] : frames);
+  const [error, setError] = useState('');
+
+  const handleSave = () => {
+    const draft: HuntProfile = {
+      id: profile?.id || createProfileId(),
+      name: name.trim(),
+      keywords: parseTagInput(keywords),
+      languages: parseTagInput(languages),
+      exclusions: parseTagInput(exclusions),
+      timeFrame
+    };
+    if (!draft.name) {
+      setError('请填写名称。');
+      return;
+    }
+    if (draft.keywords.length === 0 && draft.languages.length === 0) {
+      setError('至少需要一个关键词或语言。');
+      return;
+    }
+    onSave(draft);
+  };
+
+  const inputClass = 'w-full bg-gray-900/50 border border-gray-700 text-sm p-2 mt-1 focus:outline-none focus:border-cyan-500 placeholder-gray-700 text-cyan-100';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-[#050505] border-2 border-cyan-500 shadow-cyan-500/30 w-full max-w-lg p-6 relative font-mono">
+        <h3 className="text-xl font-cyber mb-4 tracking-wider text-cyan-400">{profile ? '编辑狩猎目标' : '新建狩猎目标'}</h3>
+        <p className="text-xs text-gray-400 mb-4">
+          关键词、语言与排除词会注入 AI 提示词与 GitHub 搜索条件，每个目标拥有独立的缓存与标签页。多个值以逗号分隔。
+        </p>
+
+        <div className="space-y-3 text-xs">
+          <label className="block">
+            <span className="text-gray-500 uppercase">名称</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Rust CLI tools" className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-gray-500 uppercase">关键词</span>
+            <input value={keywords} onChange={(e) => setKeywords(e.target.value)} placeholder="cli, terminal, tui" className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-gray-500 uppercase">语言</span>
+            <input value={languages} onChange={(e) => setLanguages(e.target.value)} placeholder="Rust" className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-gray-500 uppercase">排除</span>
+            <input value={exclusions} onChange={(e) => setExclusions(e.target.value)} placeholder="awesome-list, tutorial" className={inputClass} />
+          </label>
+          <div>
+            <span className="text-gray-500 uppercase">时间窗口</span>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {choices.map(frame => (
+                <button
+                  key={frameKey(frame)}
+                  onClick={() => setTimeFrame(frame)}
+                  className={`px-3 py-1 border rounded-sm transition-colors ${sameFrame(timeFrame, frame) ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/10' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+                >
+                  {frameLabel(frame)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-red-500 text-xs mt-3">{error}</p>}
+
+        <div className="flex gap-4 mt-6">
+          {profile && (
+            <button
+              onClick={() => onDelete(profile.id)}
+              className="py-2 px-3 text-xs uppercase text-red-500 hover:text-red-400 border border-transparent hover:border-red-900 transition-all"
+            >
+              删除
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 text-xs uppercase text-gray-500 hover:text-white border border-transparent hover:border-gray-700 transition-all"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 py-2 text-xs uppercase text-black bg-cyan-500 hover:bg-cyan-400 transition-all"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HuntProfileModal;
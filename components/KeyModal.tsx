@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { AIProvider, listProviderFields } from '../services/providers';
+import { VaultState } from '../services/keyVault';
+import { ConnectionStatus, ProviderConfig } from '../types';
+
+interface KeyModalProps {
+  provider: AIProvider;
+  currentConfig: ProviderConfig;
+  githubToken: string;
+  connectionStatus: ConnectionStatus;
+  vaultState: VaultState;
+  onSave: (config: ProviderConfig, githubToken: string) => void;
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onEnableVault: (passphrase: string) => Promise<void>;
+  onDisableVault: () => void;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const KeyModal: React.FC<KeyModalProps> = ({ provider, currentConfig, githubToken, connectionStatus, vaultState, onSave, onUnlock, onEnableVault, onDisableVault, onClose }) => {
+  const [draft, setDraft] = useState<ProviderConfig>(currentConfig);
+  const [tokenDraft, setTokenDraft] = useState(githubToken);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [vaultError, setVaultError] = useState('');
+  const [vaultBusy, setVaultBusy] = useState(false);
+  const [showVaultSetup, setShowVaultSetup] = useState(false);
+  const isLocked = vaultState === 'locked';
+  const theme = provider.theme;
+  const inputClass = `w-full bg-gray-900/50 border border-gray-700 font-mono text-sm p-3 mb-2 focus:outline-none transition-all placeholder-gray-700 ${theme.input}`;
+
+  const handleSave = () => {
+    const cleaned: ProviderConfig = { apiKey: draft.apiKey.trim() };
+    for (const field of listProviderFields(provider)) {
+      cleaned[field.name] = (draft[field.name] || '').trim();
+    }
+    onSave(cleaned, tokenDraft.trim());
+  };
+
+  const handleUnlock = async () => {
+    setVaultBusy(true);
+    setVaultError('');
+    const ok = await onUnlock(passphrase);
+    setVaultBusy(false);
+    if (!ok) setVaultError('口令错误，无法解密。');
+  };
+
+  const handleEnableVault = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setVaultError(`口令至少 ${MIN_PASSPHRASE_LENGTH} 位。`);
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      setVaultError('两次输入的口令不一致。');
+      return;
+    }
+    setVaultBusy(true);
+    setVaultError('');
+    try {
+      await onEnableVault(passphrase);
+    } catch (e: any) {
+      setVaultError(e.message || '加密失败。');
+      setVaultBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+       <div className={`bg-[#050505] border-2 w-full max-w-md p-6 shadow-[0_0_30px_rgba(0,0,0,0.5)] relative transition-colors duration-500 ${theme.modal}`}>
+          <h3 className={`text-xl font-cyber mb-4 tracking-wider flex items-center gap-2 ${theme.text}`}>
+            <span className={`w-2 h-2 rounded-full animate-pulse ${theme.dot}`}></span>
+            {provider.label.toUpperCase()} 密钥配置
+          </h3>
+          <p className="text-xs text-gray-400 font-mono mb-4">
+             {provider.keyHint}
+          </p>
+
+          {/* Locked vault: keys stay encrypted until the passphrase is entered */}
+          {isLocked && (
+            <div className="mb-4 p-3 border border-yellow-600/40 bg-yellow-900/10">
+              <span className="text-[10px] text-yellow-500 uppercase tracking-wider">🔒 密钥保险箱已锁定</span>
+              <input
+                 value={passphrase}
+                 onChange={(e) => setPassphrase(e.target.value)}
+                 onKeyDown={(e) => { if (e.key === 'Enter') handleUnlock(); }}
+                 type="password"
+                 placeholder="输入口令以解锁本次会话"
+                 className={`${inputClass} mt-1`}
+                 autoFocus
+              />
+              {vaultError && <p className="text-red-500 text-xs font-mono mb-2">{vaultError}</p>}
+              <button
+                onClick={handleUnlock}
+                disabled={vaultBusy || !passphrase}
+                className={`w-full py-2 font-mono text-xs uppercase text-white transition-all disabled:opacity-50 ${theme.solidButton}`}
+              >
+                {vaultBusy ? '解密中...' : '解锁'}
+              </button>
+            </div>
+          )}
+          {listProviderFields(provider).map(field => (
+            <label key={field.name} className="block">
+              <span className="text-[10px] text-gray-500 uppercase tracking-wider">{field.label}</span>
+              {field.options ? (
+                <select
+                   value={draft[field.name] || ''}
+                   onChange={(e) => setDraft(prev => ({ ...prev, [field.name]: e.target.value }))}
+                   className={inputClass}
+                >
+                  <option value="">{field.placeholder}</option>
+                  {field.options().map(opt => (
+                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                   value={draft[field.name] || ''}
+                   onChange={(e) => setDraft(prev => ({ ...prev, [field.name]: e.target.value }))}
+                   type="text"
+                   placeholder={field.placeholder}
+                   className={inputClass}
+                />
+              )}
+            </label>
+          ))}
+          {provider.keyMode !== 'none' && (
+            <input
+               value={draft.apiKey}
+               onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+               type="password"
+               placeholder={isLocked ? '已加密 (请先解锁)' : provider.keyPlaceholder}
+               disabled={isLocked}
+               className={`${inputClass} disabled:opacity-40`}
+            />
+          )}
+
+          {/* GitHub token is shared by every provider (repo enrichment / search) */}
+          <div className="mt-2 pt-3 border-t border-gray-800">
+            <span className="text-[10px] text-gray-500 uppercase tracking-wider">GitHub Token (可选，提升配额至 5000/hr)</span>
+            <input
+               value={tokenDraft}
+               onChange={(e) => setTokenDraft(e.target.value)}
+               type="password"
+               placeholder={isLocked ? '已加密 (请先解锁)' : 'ghp_... / github_pat_...'}
+               disabled={isLocked}
+               className={`${inputClass} disabled:opacity-40`}
+            />
+          </div>
+
+          {/* Passphrase protection for every stored key and token */}
+          {!isLocked && (
+            <div className="pt-3 border-t border-gray-800 font-mono text-xs">
+              {vaultState === 'unlocked' ? (
+                <div className="flex items-center justify-between">
+                  <span className="text-green-500">🔓 口令加密已启用 · 本次会话已解锁</span>
+                  <button onClick={onDisableVault} className="text-gray-500 hover:text-red-400 transition-colors">停用加密</button>
+                </div>
+              ) : !showVaultSetup ? (
+                <button onClick={() => setShowVaultSetup(true)} className="text-gray-500 hover:text-gray-300 transition-colors">
+                  ▶ 使用口令加密存储密钥 (PBKDF2 + AES-GCM)
+                </button>
+              ) : (
+                <div>
+                  <input
+                     value={passphrase}
+                     onChange={(e) => setPassphrase(e.target.value)}
+                     type="password"
+                     placeholder={`设置口令 (至少 ${MIN_PASSPHRASE_LENGTH} 位)`}
+                     className={inputClass}
+                  />
+                  <input
+                     value={passphraseConfirm}
+                     onChange={(e) => setPassphraseConfirm(e.target.value)}
+                     type="password"
+                     placeholder="再次输入口令"
+                     className={inputClass}
+                  />
+                  {vaultError && <p className="text-red-500 mb-2">{vaultError}</p>}
+                  <p className="text-gray-600 mb-2">口令不会被保存，遗忘后只能重新填写密钥。</p>
+                  <button
+                    onClick={handleEnableVault}
+                    disabled={vaultBusy}
+                    className="w-full py-2 uppercase border border-gray-700 text-gray-300 hover:border-gray-500 transition-colors disabled:opacity-50"
+                  >
+                    {vaultBusy ? '加密中...' : '加密现有密钥'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Modal Status Feedback */}
+          <div className="h-6 my-4 flex items-center">
+             {connectionStatus === 'checking' && <span className="text-yellow-500 text-xs font-mono animate-pulse">正在验证密钥有效性...</span>}
+             {connectionStatus === 'success' && <span className="text-green-500 text-xs font-mono">√ 验证成功：API 连接已就绪</span>}
+             {connectionStatus === 'error' && <span className="text-red-500 text-xs font-mono">× 验证失败：无效的密钥或网络错误</span>}
+          </div>
+
+          <div className="flex gap-4">
+             <button
+               onClick={onClose}
+               className="flex-1 py-2 font-mono text-xs uppercase text-gray-500 hover:text-white border border-transparent hover:border-gray-700 transition-all"
+             >
+               {connectionStatus === 'success' ? '关闭' : '取消'}
+             </button>
+             <button
+               onClick={handleSave}
+               disabled={connectionStatus === 'checking' || isLocked}
+               className={`flex-1 py-2 font-mono text-xs uppercase text-white transition-all shadow-[0_0_15px_rgba(0,0,0,0.4)]
+                  ${theme.solidButton}
+                  ${connectionStatus === 'checking' || isLocked ? 'opacity-50 cursor-not-allowed' : ''}
+               `}
+             >
+               {connectionStatus === 'checking' ? '验证中...' : '保存并验证'}
+             </button>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default KeyModal;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { AIProvider, listProviders } from '../services/providers';
+
+interface ProviderSelectorProps {
+  activeId: string;
+  onSelect: (id: string) => void;
+  compact?: boolean;
+}
+
+// Chip group over every registered provider
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({ activeId, onSelect, compact = false }) => {
+  const renderChip = (provider: AIProvider) => {
+    const isActive = provider.id === activeId;
+    return (
+      <button
+        key={provider.id}
+        onClick={() => onSelect(provider.id)}
+        className={`text-xs font-mono border rounded-sm transition-all flex items-center gap-2
+          ${compact ? 'px-3 py-1' : 'px-2 py-0.5'}
+          ${isActive ? provider.theme.chip : 'border-gray-800 text-gray-600 hover:text-gray-300 hover:border-gray-600'}
+        `}
+        title={provider.label}
+      >
+        <span className={`w-1.5 h-1.5 rounded-full ${isActive ? provider.theme.dot : 'bg-gray-700'}`}></span>
+        {compact ? provider.shortBadge : provider.badge}
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex gap-1 items-center flex-wrap">
+      {listProviders().map(renderChip)}
+    </div>
+  );
+};
+
+export default ProviderSelector;
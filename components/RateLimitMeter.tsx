@@ -0,0 +1,28 @@
+import React from 'react';
+import { GitHubRateLimit } from '../types';
+
+interface RateLimitMeterProps {
+  rateLimit: GitHubRateLimit | null;
+  hasToken: boolean;
+}
+
+const RateLimitMeter: React.FC<RateLimitMeterProps> = ({ rateLimit, hasToken }) => {
+  const ratio = rateLimit && rateLimit.limit > 0 ? rateLimit.remaining / rateLimit.limit : 1;
+  const color = ratio < 0.1 ? 'text-red-500' : ratio < 0.3 ? 'text-yellow-400' : 'text-green-400';
+  const resetLabel = rateLimit
+    ? new Date(rateLimit.resetAt).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })
+    : '';
+
+  return (
+    <div className="flex flex-col items-end" title={rateLimit ? `配额将于 ${resetLabel} 重置` : '尚未请求 GitHub API'}>
+      <span className="text-xs text-gray-500 uppercase tracking-widest font-medium">
+        GitHub 配额 <span className={hasToken ? 'text-green-600' : 'text-gray-600'}>[{hasToken ? 'TOKEN' : 'ANON'}]</span>
+      </span>
+      <span className={`text-lg font-cyber tabular-nums ${rateLimit ? color : 'text-gray-600'}`}>
+        {rateLimit ? `${rateLimit.remaining}/${rateLimit.limit}` : '--/--'}
+      </span>
+    </div>
+  );
+};
+
+export default RateLimitMeter;
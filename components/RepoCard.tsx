@@ -1,6 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Repo } from '../types';
+import { Repo, StarSnapshot } from '../types';
 import { generateRepoImage } from '../services/geminiService';
+import { fetchStargazerSeries, hasGitHubToken } from '../services/githubService';
+import { formatVelocity, getRecentSnapshots } from '../services/starHistory';
+import { getProvider } from '../services/providers';
+import { ACTIVITY_TIERS, getActivityTier } from '../services/activity';
+import Sparkline from './Sparkline';
+import SourcePanel from './SourcePanel';
+
+const SPARKLINE_DAYS = 14;
+
+type StarSeriesState =
+  | { points: StarSnapshot[]; source: 'local' | 'github' }
+  | 'loading'
+  | 'unavailable';
 
 interface RepoCardProps {
   repo: Repo;
@@ -8,12 +21,15 @@ interface RepoCardProps {
   isFavorite: boolean;
   onToggleFavorite: () => void;
   googleApiKey?: string;
+  compact?: boolean; // Dense variant for side-by-side views: no preview image, clamped description
+  footer?: React.ReactNode; // Extra panel above the actions (vault organisation)
 }
 
-const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFavorite, googleApiKey }) => {
+const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFavorite, googleApiKey, compact = false, footer }) => {
   const [imageError, setImageError] = useState(false);
   const [aiImage, setAiImage] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [starSeries, setStarSeries] = useState<StarSeriesState>('loading');
   
   // Construct GitHub OpenGraph Image URL
   const standardImageUrl = `https://opengraph.githubassets.com/1/${repo.name}`;
@@ -25,6 +41,25 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFa
     setIsGenerating(false);
   }, [repo.name]);
 
+  // Star history: stargazers API (token only, to spare the quota), local scan snapshots as fallback
+  useEffect(() => {
+    // Unmounting (or a new repo) cancels the request, not just the state update
+    const controller = new AbortController();
+    const local = getRecentSnapshots(repo.name, SPARKLINE_DAYS);
+    const fallback: StarSeriesState = local.length >= 2 ? { points: local, source: 'local' } : 'unavailable';
+
+    if (hasGitHubToken() && repo.starsCount) {
+      setStarSeries(local.length >= 2 ? fallback : 'loading');
+      fetchStargazerSeries(repo.name, repo.starsCount, SPARKLINE_DAYS, controller.signal).then(points => {
+        if (!controller.signal.aborted) setStarSeries(points ? { points, source: 'github' } : fallback);
+      });
+    } else {
+      setStarSeries(fallback);
+    }
+
+    return () => controller.abort();
+  }, [repo.name, repo.starsCount]);
+
   const handleImageError = async () => {
     setImageError(true);
     // Only attempt AI generation if we have a key and aren't already generating
@@ -43,99 +78,6 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFa
     }
   };
 
-  // Advanced Status Logic - 7 Tiers
-  const getStatusInfo = () => {
-    // Priority 1: Frozen/Archived
-    if (repo.isArchived) {
-      return { 
-        label: '已归档 (FROZEN)', 
-        color: 'text-fuchsia-300', 
-        dot: 'bg-fuchsia-500', 
-        border: 'border-fuchsia-500/40 bg-fuchsia-900/20 shadow-[0_0_8px_rgba(217,70,239,0.2)]' 
-      };
-    }
-
-    // Priority 2: Rate Limited (New)
-    if (repo.isRateLimited) {
-      return { 
-        label: '加密通道 (SECURE)', 
-        color: 'text-indigo-400', 
-        dot: 'bg-indigo-500 animate-pulse', 
-        border: 'border-indigo-500/40 bg-indigo-900/20 shadow-[0_0_8px_rgba(99,102,241,0.2)]' 
-      };
-    }
-    
-    // Priority 3: Missing Data (Real error)
-    if (!repo.lastPushedAt) {
-      return { 
-        label: '信号丢失 (UNKNOWN)', 
-        color: 'text-gray-500', 
-        dot: 'bg-gray-600', 
-        border: 'border-gray-700 bg-gray-900/20' 
-      };
-    }
-
-    const lastPush = new Date(repo.lastPushedAt);
-    const now = new Date();
-    const diffMs = now.getTime() - lastPush.getTime();
-    const daysSincePush = Math.floor(diffMs / (1000 * 3600 * 24));
-
-    // Tier 1: Hyper Active (< 3 days)
-    if (daysSincePush <= 3) {
-      return { 
-        label: '极度活跃 (CRITICAL)', 
-        color: 'text-cyan-400', 
-        dot: 'bg-cyan-400 animate-ping', 
-        border: 'border-cyan-400/50 bg-cyan-900/30 shadow-[0_0_10px_rgba(34,211,238,0.3)]' 
-      };
-    } 
-    // Tier 2: Active (< 7 days)
-    else if (daysSincePush <= 7) {
-      return { 
-        label: '在线 (ONLINE)', 
-        color: 'text-green-400', 
-        dot: 'bg-green-500 animate-pulse', 
-        border: 'border-green-500/40 bg-green-900/20 shadow-[0_0_5px_rgba(34,197,94,0.25)]' 
-      };
-    } 
-    // Tier 3: Stable (< 30 days)
-    else if (daysSincePush <= 30) {
-      return { 
-        label: '稳定 (STABLE)', 
-        color: 'text-emerald-400', 
-        dot: 'bg-emerald-500', 
-        border: 'border-emerald-600/30 bg-emerald-900/10' 
-      };
-    } 
-    // Tier 4: Idle (< 90 days)
-    else if (daysSincePush <= 90) {
-      return { 
-        label: '待机 (IDLE)', 
-        color: 'text-yellow-400', 
-        dot: 'bg-yellow-500', 
-        border: 'border-yellow-500/30 bg-yellow-900/10' 
-      };
-    } 
-    // Tier 5: Decay (< 180 days)
-    else if (daysSincePush <= 180) {
-      return { 
-        label: '衰退 (DECAY)', 
-        color: 'text-orange-500', 
-        dot: 'bg-orange-600', 
-        border: 'border-orange-600/30 bg-orange-900/10' 
-      };
-    } 
-    // Tier 6: Offline (> 180 days)
-    else {
-      return { 
-        label: '离线 (OFFLINE)', 
-        color: 'text-red-500', 
-        dot: 'bg-red-600', 
-        border: 'border-red-600/30 bg-red-900/10 shadow-[0_0_5px_rgba(220,38,38,0.2)]' 
-      };
-    }
-  };
-
   const formatRelativeTime = (dateStr?: string) => {
     if (!dateStr) return '';
     const date = new Date(dateStr);
@@ -149,7 +91,8 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFa
     return date.toLocaleDateString();
   };
 
-  const status = getStatusInfo();
+  // Advanced Status Logic - 7 Tiers (see services/activity)
+  const status = ACTIVITY_TIERS[getActivityTier(repo)];
 
   return (
     <div 
@@ -196,66 +139,68 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFa
       `}></div>
       
       {/* Image Preview Area */}
-      <div className={`relative w-full h-32 overflow-hidden border-b bg-black
-          ${isFavorite ? 'border-fuchsia-500/30' : 'border-cyan-900/30'}
-      `}>
-        <div className="absolute inset-0 bg-transparent md:bg-cyan-900/20 md:mix-blend-overlay md:group-hover:bg-transparent transition-all duration-500 z-20 pointer-events-none"></div>
-        
-        {!imageError && (
-          <img 
-            src={standardImageUrl} 
-            alt={`${repo.name} preview`}
-            className="w-full h-full object-cover transition-all duration-500 
-                       opacity-100 md:opacity-80 md:group-hover:opacity-100 
-                       grayscale-0 md:grayscale md:group-hover:grayscale-0 
-                       group-hover:scale-105"
-            onError={handleImageError}
-            loading="lazy"
-          />
-        )}
-
-        {imageError && (
-          <div className="absolute inset-0 w-full h-full bg-[#080808] flex items-center justify-center overflow-hidden">
-            <div 
-              className="absolute inset-0 z-0 opacity-20" 
-              style={{ 
-                backgroundImage: 'linear-gradient(rgba(34, 211, 238, 0.1) 1px, transparent 1px), linear-gradient(90deg, rgba(34, 211, 238, 0.1) 1px, transparent 1px)', 
-                backgroundSize: '20px 20px' 
-              }}
-            ></div>
-            
-            {isGenerating && (
-              <div className="relative z-10 flex flex-col items-center justify-center">
-                 <div className="w-8 h-8 border-2 border-fuchsia-500 border-t-transparent rounded-full animate-spin mb-2 shadow-[0_0_10px_rgba(217,70,239,0.4)]"></div>
-                 <span className="text-xs font-mono text-fuchsia-400 animate-pulse tracking-widest font-bold">NEURAL RENDERING...</span>
-              </div>
-            )}
+      {!compact && (
+        <div className={`relative w-full h-32 overflow-hidden border-b bg-black
+            ${isFavorite ? 'border-fuchsia-500/30' : 'border-cyan-900/30'}
+        `}>
+          <div className="absolute inset-0 bg-transparent md:bg-cyan-900/20 md:mix-blend-overlay md:group-hover:bg-transparent transition-all duration-500 z-20 pointer-events-none"></div>
+          
+          {!imageError && (
+            <img 
+              src={standardImageUrl} 
+              alt={`${repo.name} preview`}
+              className="w-full h-full object-cover transition-all duration-500 
+                         opacity-100 md:opacity-80 md:group-hover:opacity-100 
+                         grayscale-0 md:grayscale md:group-hover:grayscale-0 
+                         group-hover:scale-105"
+              onError={handleImageError}
+              loading="lazy"
+            />
+          )}
 
-            {!isGenerating && aiImage && (
-              <>
-                <img 
-                  src={aiImage} 
-                  alt="AI Generated Preview"
-                  loading="lazy"
-                  className="relative z-10 w-full h-full object-cover opacity-90 group-hover:opacity-100 group-hover:scale-105 transition-all duration-500"
-                />
-                <div className="absolute bottom-0 right-0 z-20 bg-black/80 px-2 py-0.5 text-[10px] text-fuchsia-500 font-mono border-tl border-fuchsia-500/30 backdrop-blur-sm">
-                  AI GENERATED
+          {imageError && (
+            <div className="absolute inset-0 w-full h-full bg-[#080808] flex items-center justify-center overflow-hidden">
+              <div 
+                className="absolute inset-0 z-0 opacity-20" 
+                style={{ 
+                  backgroundImage: 'linear-gradient(rgba(34, 211, 238, 0.1) 1px, transparent 1px), linear-gradient(90deg, rgba(34, 211, 238, 0.1) 1px, transparent 1px)', 
+                  backgroundSize: '20px 20px' 
+                }}
+              ></div>
+              
+              {isGenerating && (
+                <div className="relative z-10 flex flex-col items-center justify-center">
+                   <div className="w-8 h-8 border-2 border-fuchsia-500 border-t-transparent rounded-full animate-spin mb-2 shadow-[0_0_10px_rgba(217,70,239,0.4)]"></div>
+                   <span className="text-xs font-mono text-fuchsia-400 animate-pulse tracking-widest font-bold">NEURAL RENDERING...</span>
                 </div>
-              </>
-            )}
+              )}
 
-            {!isGenerating && !aiImage && (
-               <div className="z-10 text-cyan-900/40 text-4xl">NO_SIGNAL</div>
-            )}
-          </div>
-        )}
+              {!isGenerating && aiImage && (
+                <>
+                  <img 
+                    src={aiImage} 
+                    alt="AI Generated Preview"
+                    loading="lazy"
+                    className="relative z-10 w-full h-full object-cover opacity-90 group-hover:opacity-100 group-hover:scale-105 transition-all duration-500"
+                  />
+                  <div className="absolute bottom-0 right-0 z-20 bg-black/80 px-2 py-0.5 text-[10px] text-fuchsia-500 font-mono border-tl border-fuchsia-500/30 backdrop-blur-sm">
+                    AI GENERATED
+                  </div>
+                </>
+              )}
 
-        {/* Scanline */}
-        <div className="absolute inset-0 bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.06),rgba(0,255,0,0.02),rgba(0,0,255,0.06))] z-30 bg-[length:100%_2px,3px_100%] pointer-events-none"></div>
-      </div>
+              {!isGenerating && !aiImage && (
+                 <div className="z-10 text-cyan-900/40 text-4xl">NO_SIGNAL</div>
+              )}
+            </div>
+          )}
 
-      <div className="p-4 md:p-5 flex flex-col flex-1">
+          {/* Scanline */}
+          <div className="absolute inset-0 bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.06),rgba(0,255,0,0.02),rgba(0,0,255,0.06))] z-30 bg-[length:100%_2px,3px_100%] pointer-events-none"></div>
+        </div>
+      )}
+
+      <div className={`flex flex-col flex-1 ${compact ? 'p-3' : 'p-4 md:p-5'}`}>
         {/* Header */}
         <div className="flex justify-between items-start mb-3">
           <div className="flex items-center gap-3 overflow-hidden flex-1">
@@ -315,14 +260,43 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFa
 
         {/* Stats Badge */}
         <div className="mb-3 flex flex-wrap gap-2">
-             <span className="inline-block text-xs font-mono font-medium text-fuchsia-400 border border-fuchsia-900/50 px-2 py-1 bg-fuchsia-900/10">
-              {repo.starsTrend}
-            </span>
+            {repo.starsVelocity !== undefined ? (
+              <span
+                className="inline-flex items-baseline gap-2 text-xs font-mono font-medium text-fuchsia-300 border border-fuchsia-500/50 px-2 py-1 bg-fuchsia-900/20"
+                title="基于本地扫描快照实测的星标增速"
+              >
+                ▲ {formatVelocity(repo.starsVelocity)}
+                <span className="text-[10px] text-fuchsia-900/90">实测</span>
+                {repo.starsTrend && (
+                  <span className="text-[10px] text-gray-500" title="AI 估算">AI: {repo.starsTrend}</span>
+                )}
+              </span>
+            ) : (
+              <span
+                className="inline-block text-xs font-mono font-medium text-fuchsia-400 border border-fuchsia-900/50 px-2 py-1 bg-fuchsia-900/10"
+                title="AI 估算 (快照不足，暂无实测数据)"
+              >
+                {repo.starsTrend}
+              </span>
+            )}
             {repo.starsCount !== undefined && (
                  <span className="inline-block text-xs font-mono font-medium text-yellow-500/80 border border-yellow-900/30 px-2 py-1 bg-yellow-900/5">
                   ★ {repo.starsCount.toLocaleString()}
                 </span>
             )}
+            {typeof starSeries === 'object' && (
+                <Sparkline points={starSeries.points} source={starSeries.source} />
+            )}
+            {starSeries === 'unavailable' && (
+                <span
+                  className="inline-block text-[10px] font-mono text-gray-600 border border-gray-800 px-2 py-1 bg-black/40"
+                  title={hasGitHubToken()
+                    ? 'GitHub 未返回足够的星标记录，本地扫描快照也不足'
+                    : '设置 GitHub Token 以读取 stargazers，或等待多次扫描积累本地快照'}
+                >
+                  星标走势不可用
+                </span>
+            )}
             {repo.language && (
                  <span className="inline-block text-xs font-mono font-medium text-cyan-500/80 border border-cyan-900/30 px-2 py-1 bg-cyan-900/5">
                   {repo.language}
@@ -330,6 +304,21 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFa
             )}
         </div>
 
+        {/* Providers that surfaced this repo (ensemble mode) */}
+        {repo.surfacedBy && repo.surfacedBy.length > 0 && (
+          <div className="mb-3 flex flex-wrap items-center gap-1 font-mono text-[10px]">
+            <span className="text-gray-600 uppercase mr-1">共识 ×{repo.surfacedBy.length}</span>
+            {repo.surfacedBy.map(id => {
+              const provider = getProvider(id);
+              return (
+                <span key={id} className={`px-1.5 py-0.5 border rounded-sm ${provider.theme.chip}`} title={provider.label}>
+                  {provider.shortBadge}
+                </span>
+              );
+            })}
+          </div>
+        )}
+
         {/* Owner/Url Info */}
         <div className="mb-3 font-mono text-xs text-gray-500 truncate">
           <span className="text-cyan-700 select-none">{'>'} </span>
@@ -339,11 +328,16 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFa
         {/* Description */}
         <div className="relative overflow-hidden mb-4 border-l-2 border-gray-800 group-hover:border-cyan-500/50 transition-colors rounded-sm bg-gray-900/20">
           <div className="absolute inset-0 holographic-bg pointer-events-none"></div>
-          <p className="relative z-10 text-gray-300 md:text-gray-400 text-base md:text-sm leading-relaxed p-3 font-mono h-auto md:h-20 md:overflow-y-auto scrollbar-hide">
+          <p className={`relative z-10 text-gray-300 md:text-gray-400 leading-relaxed font-mono
+            ${compact ? 'text-xs p-2 line-clamp-3' : 'text-base md:text-sm p-3 h-auto md:h-20 md:overflow-y-auto scrollbar-hide'}
+          `}>
             {repo.description}
           </p>
         </div>
 
+        {/* Grounding sources behind this pick */}
+        {!compact && <SourcePanel sources={repo.sources} compact />}
+
         {/* Tags */}
         <div className="flex flex-wrap gap-2 mb-4 mt-auto">
           {repo.tags.map((tag, i) => (
@@ -353,6 +347,8 @@ const RepoCard: React.FC<RepoCardProps> = ({ repo, index, isFavorite, onToggleFa
           ))}
         </div>
 
+        {footer}
+
         {/* Actions */}
         <div className={`flex gap-2 pt-2 border-t ${isFavorite ? 'border-fuchsia-500/30' : 'border-gray-800'}`}>
           <a 
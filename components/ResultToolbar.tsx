@@ -0,0 +1,83 @@
+import React from 'react';
+import { ActivityTier } from '../services/activity';
+import { EMPTY_RESULT_QUERY, RESULT_FLAGS, RESULT_SORTS, ResultFlag, ResultQuery, ResultSort, TIER_OPTIONS, isQueryActive } from '../services/resultFilter';
+
+interface ResultToolbarProps {
+  query: ResultQuery;
+  languages: string[];
+  shown: number;
+  total: number;
+  onChange: (query: ResultQuery) => void;
+}
+
+const ANY = '__any__';
+
+// Search box plus language / activity / flag filters and sort order above the result grid
+const ResultToolbar: React.FC<ResultToolbarProps> = ({ query, languages, shown, total, onChange }) => {
+  const selectClass = 'bg-black border border-gray-800 text-gray-300 px-2 py-1 focus:outline-none focus:border-cyan-500';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6 font-mono text-xs animate-fade-in">
+      <input
+        type="search"
+        value={query.search}
+        onChange={(e) => onChange({ ...query, search: e.target.value })}
+        placeholder="搜索名称 / 描述 / 标签"
+        className="flex-1 min-w-[12rem] bg-gray-900/50 border border-gray-800 px-3 py-1 text-gray-300 focus:outline-none focus:border-cyan-500 placeholder-gray-700"
+      />
+
+      <select
+        value={query.language ?? ANY}
+        onChange={(e) => onChange({ ...query, language: e.target.value === ANY ? null : e.target.value })}
+        className={selectClass}
+        aria-label="语言"
+      >
+        <option value={ANY}>全部语言</option>
+        {languages.map(language => <option key={language} value={language}>{language}</option>)}
+      </select>
+
+      <select
+        value={query.tier ?? ANY}
+        onChange={(e) => onChange({ ...query, tier: e.target.value === ANY ? null : e.target.value as ActivityTier })}
+        className={selectClass}
+        aria-label="活跃度"
+      >
+        <option value={ANY}>全部活跃度</option>
+        {TIER_OPTIONS.map(tier => <option key={tier.value} value={tier.value}>{tier.label}</option>)}
+      </select>
+
+      <select
+        value={query.flag ?? ANY}
+        onChange={(e) => onChange({ ...query, flag: e.target.value === ANY ? null : e.target.value as ResultFlag })}
+        className={selectClass}
+        aria-label="状态"
+      >
+        <option value={ANY}>全部状态</option>
+        {RESULT_FLAGS.map(flag => <option key={flag.value} value={flag.value}>{flag.label}</option>)}
+      </select>
+
+      <select
+        value={query.sort}
+        onChange={(e) => onChange({ ...query, sort: e.target.value as ResultSort })}
+        className={`${selectClass} ${query.sort !== 'default' ? 'text-cyan-400 border-cyan-800' : ''}`}
+        aria-label="排序"
+      >
+        {RESULT_SORTS.map(sort => <option key={sort.value} value={sort.value}>{sort.label}</option>)}
+      </select>
+
+      {isQueryActive(query) && (
+        <>
+          <span className="text-gray-500">{shown} / {total}</span>
+          <button
+            onClick={() => onChange({ ...EMPTY_RESULT_QUERY, sort: query.sort })}
+            className="text-gray-500 hover:text-cyan-400 transition-colors"
+          >
+            × 清除
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ResultToolbar;
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { RefreshSchedule, getLatestCheckpoint, getNextCheckpoint, isValidTimeZone, localTimeZone, parseTimeList } from '../services/refreshSchedule';
+
+interface ScheduleModalProps {
+  schedule: RefreshSchedule;
+  onSave: (schedule: RefreshSchedule) => void;
+  onClose: () => void;
+}
+
+const INTERVALS = [1, 2, 3, 4, 6, 8, 12, 24];
+
+const listTimeZones = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [];
+  }
+};
+
+// Edit when cached scans expire (and when the countdown / auto-scan fires)
+const ScheduleModal: React.FC<ScheduleModalProps> = ({ schedule, onSave, onClose }) => {
+  const [mode, setMode] = useState(schedule.mode);
+  const [timesText, setTimesText] = useState(schedule.times.join(', '));
+  const [intervalHours, setIntervalHours] = useState(schedule.intervalHours);
+  const [timeZone, setTimeZone] = useState(schedule.timeZone);
+  const [autoScan, setAutoScan] = useState(schedule.autoScan);
+  const [background, setBackground] = useState(schedule.background);
+  const zones = useMemo(listTimeZones, []);
+
+  const times = parseTimeList(timesText);
+  const zoneValid = !timeZone.trim() || isValidTimeZone(timeZone.trim());
+  const canSave = zoneValid && (mode === 'interval' || times.length > 0);
+  // Interval mode keeps the previous time list so switching back doesn't lose it
+  const draft: RefreshSchedule = { mode, times: times.length > 0 ? times : schedule.times, intervalHours, timeZone: timeZone.trim(), autoScan, background };
+
+  const formatInstant = (t: number) => new Date(t).toLocaleString('zh-CN', { hour12: false });
+
+  const inputClass = 'w-full bg-gray-900/50 border border-gray-700 text-sm p-2 mt-1 focus:outline-none focus:border-fuchsia-500 placeholder-gray-700 text-fuchsia-100';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-[#050505] border-2 border-fuchsia-500 shadow-fuchsia-500/30 w-full max-w-lg p-6 relative font-mono">
+        <h3 className="text-xl font-cyber mb-4 tracking-wider text-fuchsia-400">刷新计划</h3>
+        <p className="text-xs text-gray-400 mb-4">
+          到达检查点后本地缓存失效，倒计时归零。可选在页面打开时自动重新扫描当前标签页。
+        </p>
+
+        <div className="space-y-4 text-xs">
+          <div className="flex gap-1">
+            {(['times', 'interval'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 border rounded-sm transition-colors ${mode === option ? 'border-fuchsia-500/50 text-fuchsia-400 bg-fuchsia-900/10' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+              >
+                {option === 'times' ? '固定时刻' : '固定间隔'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'times' ? (
+            <label className="block">
+              <span className="text-gray-500 uppercase">时刻 (HH:MM，逗号分隔)</span>
+              <input value={timesText} onChange={(e) => setTimesText(e.target.value)} placeholder="05:00, 17:00" className={inputClass} />
+              {times.length === 0 && <span className="text-red-500">至少需要一个有效时刻。</span>}
+            </label>
+          ) : (
+            <label className="block">
+              <span className="text-gray-500 uppercase">间隔 (自零点起)</span>
+              <select value={intervalHours} onChange={(e) => setIntervalHours(Number(e.target.value))} className={inputClass}>
+                {INTERVALS.map(hours => <option key={hours} value={hours}>每 {hours} 小时</option>)}
+              </select>
+            </label>
+          )}
+
+          <label className="block">
+            <span className="text-gray-500 uppercase">时区</span>
+            <input
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              list="schedule-time-zones"
+              placeholder={`本地 (${localTimeZone()})`}
+              className={inputClass}
+            />
+            <datalist id="schedule-time-zones">
+              {zones.map(zone => <option key={zone} value={zone} />)}
+            </datalist>
+            {!zoneValid && <span className="text-red-500">无法识别的时区。</span>}
+          </label>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={autoScan} onChange={(e) => setAutoScan(e.target.checked)} className="accent-fuchsia-500" />
+            <span className="text-gray-300">倒计时归零时自动扫描 (仅在页面打开时)</span>
+          </label>
+
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input type="checkbox" checked={background} onChange={(e) => setBackground(e.target.checked)} className="accent-fuchsia-500 mt-0.5" />
+            <span className="text-gray-300">
+              后台刷新与通知
+              <span className="block text-gray-600">
+                由 Service Worker 在检查点后刷新首个固定窗口与保险库；新仓库进入前十或收藏仓库被归档时发送通知。浏览器不支持周期同步时，改为下次打开页面时执行。
+              </span>
+            </span>
+          </label>
+
+          {canSave && (
+            <div className="border border-gray-800 p-2 text-gray-500 space-y-1">
+              <div>上一检查点 <span className="text-gray-300">{formatInstant(getLatestCheckpoint(draft))}</span></div>
+              <div>下一检查点 <span className="text-fuchsia-400">{formatInstant(getNextCheckpoint(draft))}</span></div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-4 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 text-xs uppercase text-gray-500 hover:text-white border border-transparent hover:border-gray-700 transition-all"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!canSave}
+            className="flex-1 py-2 text-xs uppercase text-white bg-fuchsia-600 hover:bg-fuchsia-500 transition-all disabled:opacity-50"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleModal;
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { GroundingSource } from '../types';
+
+interface SourcePanelProps {
+  sources?: GroundingSource[];
+  compact?: boolean; // Card variant
+}
+
+// Expandable list of web pages a search-grounded model cited
+const SourcePanel: React.FC<SourcePanelProps> = ({ sources, compact = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!sources || sources.length === 0) return null;
+
+  return (
+    <div className={`font-mono ${compact ? 'mb-3 text-[10px]' : 'mb-6 text-xs border border-cyan-900/40 bg-black/40 p-3'}`}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 text-cyan-600 hover:text-cyan-300 transition-colors uppercase tracking-wider"
+        aria-expanded={isOpen}
+      >
+        <span className={`inline-block transition-transform ${isOpen ? 'rotate-90' : ''}`}>▶</span>
+        信号来源 ({sources.length})
+      </button>
+      {isOpen && (
+        <ul className={`mt-2 space-y-1 border-l border-cyan-900/50 pl-3 ${compact ? 'max-h-24 overflow-y-auto scrollbar-hide' : ''}`}>
+          {sources.map(source => (
+            <li key={source.uri} className="truncate">
+              <span className="text-cyan-800 select-none">{'>'} </span>
+              <a
+                href={source.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-gray-400 hover:text-cyan-400 transition-colors"
+                title={source.uri}
+              >
+                {source.title}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SourcePanel;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { StarSnapshot } from '../types';
+
+interface SparklineProps {
+  points: StarSnapshot[];
+  width?: number;
+  height?: number;
+  source?: 'local' | 'github';
+}
+
+// Tiny inline SVG chart of cumulative stars over time
+const Sparkline: React.FC<SparklineProps> = ({ points, width = 80, height = 20, source = 'local' }) => {
+  if (points.length < 2) return null;
+
+  const minT = points[0].t;
+  const maxT = points[points.length - 1].t;
+  const minS = Math.min(...points.map(p => p.stars));
+  const maxS = Math.max(...points.map(p => p.stars));
+  const spanT = maxT - minT || 1;
+  const spanS = maxS - minS || 1;
+
+  const xy = points.map(p => ({
+    x: ((p.t - minT) / spanT) * width,
+    y: height - ((p.stars - minS) / spanS) * (height - 2) - 1
+  }));
+  const last = xy[xy.length - 1];
+
+  const gained = points[points.length - 1].stars - points[0].stars;
+  const stroke = gained > 0 ? '#e879f9' : '#6b7280';
+  const days = Math.max(1, Math.round(spanT / (1000 * 60 * 60 * 24)));
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 border border-fuchsia-900/30 px-2 py-1 bg-black/40"
+      title={`近 ${days} 天星标走势 (${source === 'github' ? 'GitHub stargazers' : '本地扫描快照'}): ${gained >= 0 ? '+' : ''}${gained}`}
+    >
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+        <polyline
+          points={xy.map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ')}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+        <circle cx={last.x} cy={last.y} r={2} fill={stroke} />
+      </svg>
+    </span>
+  );
+};
+
+export default Sparkline;
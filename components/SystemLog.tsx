@@ -1,12 +1,14 @@
 import React, { useEffect, useRef } from 'react';
 import { AppStatus } from '../types';
+import { ScanProgress, formatScanProgress } from '../services/scanEvents';
 
 interface SystemLogProps {
   status: AppStatus;
   logs: string[];
+  progress?: ScanProgress | null; // Live phase line, updated in place below the log
 }
 
-const SystemLog: React.FC<SystemLogProps> = ({ status, logs }) => {
+const SystemLog: React.FC<SystemLogProps> = ({ status, logs, progress }) => {
   const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -17,7 +19,7 @@ const SystemLog: React.FC<SystemLogProps> = ({ status, logs }) => {
         behavior: 'smooth'
       });
     }
-  }, [logs]);
+  }, [logs, progress]);
 
   const getStatusColor = () => {
     switch (status) {
@@ -56,6 +58,12 @@ const SystemLog: React.FC<SystemLogProps> = ({ status, logs }) => {
             <span className="text-cyan-300/90 leading-relaxed">{log}</span>
           </div>
         ))}
+        {progress && (
+          <div className="flex gap-2 text-xs md:text-xs">
+            <span className="text-yellow-600 flex-shrink-0 animate-pulse">{'>>'}</span>
+            <span className="text-yellow-400/90">{formatScanProgress(progress)}</span>
+          </div>
+        )}
       </div>
     </div>
   );
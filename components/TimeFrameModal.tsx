@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { TimeFrame } from '../types';
+import { PRESET_FRAMES, frameKey, frameLabel, rollingDays, rollingHours, sameFrame, toTimeFrame, uniqueFrames } from '../services/timeFrames';
+
+interface TimeFrameModalProps {
+  pinned: TimeFrame[];
+  onSave: (pinned: TimeFrame[]) => void;
+  onClose: () => void;
+}
+
+const MAX_ROLLING_DAYS = 365;
+
+// Pin preset or custom windows (rolling hours/days or a fixed date range) as scanner tabs
+const TimeFrameModal: React.FC<TimeFrameModalProps> = ({ pinned, onSave, onClose }) => {
+  const [draft, setDraft] = useState<TimeFrame[]>(pinned);
+  const [amount, setAmount] = useState('30');
+  const [unit, setUnit] = useState<'h' | 'd'>('d');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [error, setError] = useState('');
+
+  const isPinned = (frame: TimeFrame) => draft.some(f => sameFrame(f, frame));
+
+  const togglePin = (frame: TimeFrame) => {
+    setError('');
+    if (!isPinned(frame)) {
+      setDraft(prev => [...prev, frame]);
+    } else if (draft.length > 1) {
+      setDraft(prev => prev.filter(f => !sameFrame(f, frame)));
+    } else {
+      setError('至少保留一个时间窗口。');
+    }
+  };
+
+  const addFrame = (frame: TimeFrame | undefined, message: string) => {
+    if (!frame) {
+      setError(message);
+      return;
+    }
+    setError('');
+    setDraft(prev => uniqueFrames([...prev, frame]));
+  };
+
+  const addRolling = () => {
+    const value = Math.floor(Number(amount));
+    const hours = unit === 'h' ? value : value * 24;
+    addFrame(
+      value > 0 && hours <= MAX_ROLLING_DAYS * 24 ? (unit === 'h' ? rollingHours(value) : rollingDays(value)) : undefined,
+      `请输入 1 到 ${MAX_ROLLING_DAYS} 天之间的窗口。`
+    );
+  };
+
+  const addRange = () => {
+    addFrame(toTimeFrame({ kind: 'range', from, to }), '请选择有效的起止日期 (起始不晚于结束)。');
+  };
+
+  // Presets first, then any custom windows already pinned
+  const options = uniqueFrames([...PRESET_FRAMES, ...draft]);
+  const inputClass = 'bg-gray-900/50 border border-gray-700 text-sm px-2 py-1 focus:outline-none focus:border-cyan-500 text-cyan-100';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-[#050505] border-2 border-cyan-500 shadow-cyan-500/30 w-full max-w-lg p-6 relative font-mono">
+        <h3 className="text-xl font-cyber mb-4 tracking-wider text-cyan-400">时间窗口</h3>
+        <p className="text-xs text-gray-400 mb-4">
+          选择要固定为标签页的窗口。每个窗口拥有独立缓存，并决定提示词与 GitHub 搜索的日期范围。
+        </p>
+
+        <div className="flex flex-wrap gap-1 mb-6 text-xs">
+          {options.map(frame => (
+            <button
+              key={frameKey(frame)}
+              onClick={() => togglePin(frame)}
+              className={`px-3 py-1 border rounded-sm transition-colors ${isPinned(frame) ? 'border-cyan-500/50 text-cyan-400 bg-cyan-900/10' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+            >
+              {isPinned(frame) ? '📌 ' : ''}{frameLabel(frame)}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3 text-xs">
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500 uppercase w-16">滚动</span>
+            <span className="text-gray-400">近</span>
+            <input type="number" min={1} value={amount} onChange={(e) => setAmount(e.target.value)} className={`${inputClass} w-20`} />
+            <select value={unit} onChange={(e) => setUnit(e.target.value as 'h' | 'd')} className={inputClass}>
+              <option value="h">小时</option>
+              <option value="d">天</option>
+            </select>
+            <button onClick={addRolling} className="ml-auto px-3 py-1 border border-cyan-800 text-cyan-400 hover:bg-cyan-900/30 rounded-sm transition-colors">
+              + 固定
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500 uppercase w-16">日期</span>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            <span className="text-gray-400">~</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            <button onClick={addRange} className="ml-auto px-3 py-1 border border-cyan-800 text-cyan-400 hover:bg-cyan-900/30 rounded-sm transition-colors">
+              + 固定
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-red-500 text-xs mt-3">{error}</p>}
+
+        <div className="flex gap-4 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 text-xs uppercase text-gray-500 hover:text-white border border-transparent hover:border-gray-700 transition-all"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-1 py-2 text-xs uppercase text-black bg-cyan-500 hover:bg-cyan-400 transition-all"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimeFrameModal;
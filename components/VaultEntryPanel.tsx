@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { VaultAlert, VaultEntry } from '../types';
+import { TRIAGE_STATUSES, parseTagInput } from '../services/vault';
+import { VAULT_ALERT_LABELS } from '../services/vaultMonitor';
+
+interface VaultEntryPanelProps {
+  entry: VaultEntry;
+  folders: string[]; // Existing folders, offered as suggestions
+  onUpdate: (patch: Partial<VaultEntry>) => void;
+}
+
+// Per-card vault organisation: triage status, folder, personal tags and note
+const VaultEntryPanel: React.FC<VaultEntryPanelProps> = ({ entry, folders, onUpdate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [folderDraft, setFolderDraft] = useState(entry.folder || '');
+  const [tagDraft, setTagDraft] = useState(entry.personalTags.join(', '));
+  const [noteDraft, setNoteDraft] = useState(entry.note || '');
+  const datalistId = `vault-folders-${entry.name}`;
+
+  // Imports / other cards may change the entry underneath us
+  useEffect(() => {
+    setFolderDraft(entry.folder || '');
+    setTagDraft(entry.personalTags.join(', '));
+    setNoteDraft(entry.note || '');
+  }, [entry.folder, entry.personalTags, entry.note]);
+
+  const commitFolder = () => {
+    const folder = folderDraft.trim();
+    if (folder !== (entry.folder || '')) onUpdate({ folder: folder || undefined });
+  };
+
+  const commitTags = () => {
+    const personalTags = parseTagInput(tagDraft);
+    if (personalTags.join(',') !== entry.personalTags.join(',')) onUpdate({ personalTags });
+  };
+
+  const commitNote = () => {
+    const note = noteDraft.trim();
+    if (note !== (entry.note || '')) onUpdate({ note: note || undefined });
+  };
+
+  // Dismissing a surge acknowledges the current star count as the new baseline
+  const dismissAlert = (alert: VaultAlert) => {
+    const alerts = (entry.alerts || []).filter(a => a.kind !== alert.kind);
+    onUpdate(alert.kind === 'surge' ? { alerts, starsAtSave: entry.starsCount } : { alerts });
+  };
+
+  const inputClass = 'w-full bg-gray-900/50 border border-gray-800 px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-fuchsia-500 placeholder-gray-700';
+
+  return (
+    <div className="mb-4 font-mono text-[10px] border-t border-fuchsia-900/30 pt-3">
+      {entry.alerts && entry.alerts.length > 0 && (
+        <div className="mb-2 space-y-1">
+          {entry.alerts.map(alert => (
+            <div key={alert.kind} className="flex items-center gap-2 px-2 py-1 border border-red-700/50 bg-red-900/10 text-red-400">
+              <span className="font-bold">⚠ {VAULT_ALERT_LABELS[alert.kind]}</span>
+              <span className="text-red-300/70 truncate" title={alert.detail}>{alert.detail}</span>
+              <button
+                onClick={() => dismissAlert(alert)}
+                className="ml-auto text-red-700 hover:text-red-400 transition-colors"
+                aria-label="忽略警报"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-1">
+        {TRIAGE_STATUSES.map(status => (
+          <button
+            key={status.value}
+            onClick={() => onUpdate({ status: status.value })}
+            className={`px-2 py-0.5 border rounded-sm transition-colors ${entry.status === status.value ? status.className : 'border-gray-800 text-gray-600 hover:text-gray-400'}`}
+          >
+            {status.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          className="ml-auto text-gray-500 hover:text-fuchsia-400 transition-colors"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? '▼' : '▶'} 整理
+        </button>
+      </div>
+
+      {/* Summary when collapsed */}
+      {!isOpen && (entry.folder || entry.personalTags.length > 0 || entry.note) && (
+        <div className="mt-2 flex flex-wrap gap-1 text-gray-500">
+          {entry.folder && <span className="text-fuchsia-400">📁 {entry.folder}</span>}
+          {entry.personalTags.map(tag => (
+            <span key={tag} className="px-1.5 border border-fuchsia-900/50 text-fuchsia-300">{tag}</span>
+          ))}
+          {entry.note && <span className="w-full truncate text-gray-500" title={entry.note}>✎ {entry.note}</span>}
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <label className="block">
+            <span className="text-gray-600 uppercase">收藏夹</span>
+            <input
+              value={folderDraft}
+              onChange={(e) => setFolderDraft(e.target.value)}
+              onBlur={commitFolder}
+              list={datalistId}
+              placeholder="未分类"
+              className={inputClass}
+            />
+            <datalist id={datalistId}>
+              {folders.map(folder => <option key={folder} value={folder} />)}
+            </datalist>
+          </label>
+          <label className="block">
+            <span className="text-gray-600 uppercase">个人标签 (逗号分隔)</span>
+            <input
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              onBlur={commitTags}
+              placeholder="infra, 待深读"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-600 uppercase">备注</span>
+            <textarea
+              value={noteDraft}
+              onChange={(e) => setNoteDraft(e.target.value)}
+              onBlur={commitNote}
+              rows={3}
+              className={`${inputClass} resize-y`}
+            />
+          </label>
+          <div className="text-gray-600">
+            收藏于 {entry.addedAt ? new Date(entry.addedAt).toLocaleString('zh-CN') : '未知'}
+            {entry.starsAtSave !== undefined && ` · 收藏时 ${entry.starsAtSave.toLocaleString()} ★`}
+          </div>
+          <div className="text-gray-600">
+            最近复查 {entry.checkedAt ? new Date(entry.checkedAt).toLocaleString('zh-CN') : '从未'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultEntryPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { EMPTY_VAULT_FILTER, TRIAGE_STATUSES, VaultFilter, isFilterActive } from '../services/vault';
+
+interface VaultFiltersProps {
+  filter: VaultFilter;
+  folders: string[];
+  tags: string[];
+  onChange: (filter: VaultFilter) => void;
+}
+
+const ANY = '__any__';
+
+// Folder / status / alert / personal tag filters for the Vault view header
+const VaultFilters: React.FC<VaultFiltersProps> = ({ filter, folders, tags, onChange }) => {
+  const selectClass = 'bg-black border border-gray-800 text-gray-300 px-2 py-1 focus:outline-none focus:border-fuchsia-500';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 font-mono text-xs">
+      <select
+        value={filter.folder ?? ANY}
+        onChange={(e) => onChange({ ...filter, folder: e.target.value === ANY ? null : e.target.value })}
+        className={selectClass}
+        aria-label="收藏夹"
+      >
+        <option value={ANY}>全部收藏夹</option>
+        <option value="">未分类</option>
+        {folders.map(folder => <option key={folder} value={folder}>📁 {folder}</option>)}
+      </select>
+
+      <div className="flex gap-1">
+        {TRIAGE_STATUSES.map(status => (
+          <button
+            key={status.value}
+            onClick={() => onChange({ ...filter, status: filter.status === status.value ? null : status.value })}
+            className={`px-2 py-1 border rounded-sm transition-colors ${filter.status === status.value ? status.className : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+          >
+            {status.label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange({ ...filter, alertsOnly: !filter.alertsOnly })}
+        className={`px-2 py-1 border rounded-sm transition-colors ${filter.alertsOnly ? 'border-red-600/50 text-red-400 bg-red-900/10' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+      >
+        ⚠ 警报
+      </button>
+
+      {tags.length > 0 && (
+        <select
+          value={filter.tag ?? ANY}
+          onChange={(e) => onChange({ ...filter, tag: e.target.value === ANY ? null : e.target.value })}
+          className={selectClass}
+          aria-label="个人标签"
+        >
+          <option value={ANY}>全部标签</option>
+          {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+      )}
+
+      {isFilterActive(filter) && (
+        <button
+          onClick={() => onChange(EMPTY_VAULT_FILTER)}
+          className="text-gray-500 hover:text-fuchsia-400 transition-colors"
+        >
+          × 清除筛选
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VaultFilters;
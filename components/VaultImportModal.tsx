@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { VaultEntry } from '../types';
+import { ConflictStrategy, countConflicts, enrichImportedNames, parseVaultImport } from '../services/vaultTransfer';
+
+interface VaultImportModalProps {
+  existing: VaultEntry[];
+  onImport: (entries: VaultEntry[], strategy: ConflictStrategy) => void;
+  onClose: () => void;
+}
+
+interface ImportPreview {
+  entries: VaultEntry[];
+  conflicts: number;
+  missing: string[];
+  skipped: number;
+}
+
+const STRATEGIES: { value: ConflictStrategy; label: string; hint: string }[] = [
+  { value: 'merge', label: '合并', hint: '保留本地内容，用导入数据补全空缺，合并标签与备注' },
+  { value: 'keep', label: '保留本地', hint: '跳过已存在的仓库' },
+  { value: 'replace', label: '覆盖', hint: '以导入文件为准' }
+];
+
+// Paste or pick a JSON bundle, OPML file or plain owner/repo list, preview, then merge into the vault
+const VaultImportModal: React.FC<VaultImportModalProps> = ({ existing, onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('merge');
+  const [error, setError] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setText(await file.text());
+    setPreview(null);
+  };
+
+  const handleParse = async () => {
+    setError('');
+    setPreview(null);
+    setIsParsing(true);
+    try {
+      const parsed = parseVaultImport(text);
+      const enriched = parsed.names.length > 0
+        ? await enrichImportedNames(parsed.names)
+        : { entries: [], missing: [] };
+      const entries = [...parsed.entries, ...enriched.entries];
+      if (entries.length === 0) {
+        setError('没有可导入的仓库。');
+      } else {
+        setPreview({
+          entries,
+          conflicts: countConflicts(existing, entries),
+          missing: enriched.missing,
+          skipped: parsed.skipped
+        });
+      }
+    } catch (e: any) {
+      setError(e.message || '解析失败。');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-[#050505] border-2 border-fuchsia-500 shadow-fuchsia-500/30 w-full max-w-lg p-6 relative font-mono">
+        <h3 className="text-xl font-cyber mb-4 tracking-wider text-fuchsia-400">导入数据保险库</h3>
+        <p className="text-xs text-gray-400 mb-4">
+          支持 CyberGit JSON 导出文件、OPML 文件，或每行一个 owner/repo (将通过 GitHub 自动补全元数据)。
+        </p>
+
+        <input
+          type="file"
+          accept=".json,.opml,.xml,.txt,application/json,text/plain,text/xml"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-xs text-gray-500 mb-2 file:mr-3 file:py-1 file:px-3 file:border file:border-fuchsia-800 file:bg-transparent file:text-fuchsia-400"
+        />
+        <textarea
+          value={text}
+          onChange={(e) => { setText(e.target.value); setPreview(null); }}
+          rows={6}
+          placeholder={'facebook/react\nhttps://github.com/vercel/next.js'}
+          className="w-full bg-gray-900/50 border border-gray-700 text-sm p-3 mb-2 focus:outline-none focus:border-fuchsia-500 placeholder-gray-700 text-fuchsia-100"
+        />
+
+        {error && <p className="text-red-500 text-xs mb-2">{error}</p>}
+
+        {preview && (
+          <div className="text-xs border border-gray-800 p-3 mb-4 space-y-2">
+            <div className="flex flex-wrap gap-x-4 text-gray-400">
+              <span>可导入 <span className="text-fuchsia-400">{preview.entries.length}</span></span>
+              <span>冲突 <span className={preview.conflicts > 0 ? 'text-yellow-400' : 'text-gray-600'}>{preview.conflicts}</span></span>
+              {preview.missing.length > 0 && <span>未找到 <span className="text-red-500">{preview.missing.length}</span></span>}
+              {preview.skipped > 0 && <span>无法识别 <span className="text-red-500">{preview.skipped}</span></span>}
+            </div>
+            {preview.missing.length > 0 && (
+              <p className="text-gray-600 truncate" title={preview.missing.join(', ')}>未找到: {preview.missing.join(', ')}</p>
+            )}
+            {preview.conflicts > 0 && (
+              <div className="space-y-1 pt-2 border-t border-gray-900">
+                {STRATEGIES.map(option => (
+                  <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="conflict-strategy"
+                      checked={strategy === option.value}
+                      onChange={() => setStrategy(option.value)}
+                      className="mt-0.5 accent-fuchsia-500"
+                    />
+                    <span>
+                      <span className="text-gray-300">{option.label}</span>
+                      <span className="text-gray-600"> — {option.hint}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 text-xs uppercase text-gray-500 hover:text-white border border-transparent hover:border-gray-700 transition-all"
+          >
+            取消
+          </button>
+          {preview ? (
+            <button
+              onClick={() => onImport(preview.entries, strategy)}
+              className="flex-1 py-2 text-xs uppercase text-white bg-fuchsia-600 hover:bg-fuchsia-500 transition-all"
+            >
+              导入 {preview.entries.length} 项
+            </button>
+          ) : (
+            <button
+              onClick={handleParse}
+              disabled={isParsing || !text.trim()}
+              className="flex-1 py-2 text-xs uppercase text-white bg-fuchsia-600 hover:bg-fuchsia-500 transition-all disabled:opacity-50"
+            >
+              {isParsing ? '解析中...' : '解析'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultImportModal;
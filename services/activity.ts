@@ -0,0 +1,96 @@
+import { Repo } from "../types";
+
+// Activity tiers shown in the RepoCard status bar, derived from GitHub metadata.
+// Shared so the vault monitor and result filters classify repos the same way.
+
+export type ActivityTier = 'archived' | 'secure' | 'unknown' | 'critical' | 'online' | 'stable' | 'idle' | 'decay' | 'offline';
+
+export interface ActivityTierStyle {
+  label: string;
+  color: string;
+  dot: string;
+  border: string;
+}
+
+const DAY_MS = 1000 * 3600 * 24;
+
+export const ACTIVITY_TIERS: Record<ActivityTier, ActivityTierStyle> = {
+  // Priority 1: Frozen/Archived
+  archived: {
+    label: '已归档 (FROZEN)',
+    color: 'text-fuchsia-300',
+    dot: 'bg-fuchsia-500',
+    border: 'border-fuchsia-500/40 bg-fuchsia-900/20 shadow-[0_0_8px_rgba(217,70,239,0.2)]'
+  },
+  // Priority 2: Rate Limited
+  secure: {
+    label: '加密通道 (SECURE)',
+    color: 'text-indigo-400',
+    dot: 'bg-indigo-500 animate-pulse',
+    border: 'border-indigo-500/40 bg-indigo-900/20 shadow-[0_0_8px_rgba(99,102,241,0.2)]'
+  },
+  // Priority 3: Missing Data (Real error)
+  unknown: {
+    label: '信号丢失 (UNKNOWN)',
+    color: 'text-gray-500',
+    dot: 'bg-gray-600',
+    border: 'border-gray-700 bg-gray-900/20'
+  },
+  // Tier 1: Hyper Active (< 3 days)
+  critical: {
+    label: '极度活跃 (CRITICAL)',
+    color: 'text-cyan-400',
+    dot: 'bg-cyan-400 animate-ping',
+    border: 'border-cyan-400/50 bg-cyan-900/30 shadow-[0_0_10px_rgba(34,211,238,0.3)]'
+  },
+  // Tier 2: Active (< 7 days)
+  online: {
+    label: '在线 (ONLINE)',
+    color: 'text-green-400',
+    dot: 'bg-green-500 animate-pulse',
+    border: 'border-green-500/40 bg-green-900/20 shadow-[0_0_5px_rgba(34,197,94,0.25)]'
+  },
+  // Tier 3: Stable (< 30 days)
+  stable: {
+    label: '稳定 (STABLE)',
+    color: 'text-emerald-400',
+    dot: 'bg-emerald-500',
+    border: 'border-emerald-600/30 bg-emerald-900/10'
+  },
+  // Tier 4: Idle (< 90 days)
+  idle: {
+    label: '待机 (IDLE)',
+    color: 'text-yellow-400',
+    dot: 'bg-yellow-500',
+    border: 'border-yellow-500/30 bg-yellow-900/10'
+  },
+  // Tier 5: Decay (< 180 days)
+  decay: {
+    label: '衰退 (DECAY)',
+    color: 'text-orange-500',
+    dot: 'bg-orange-600',
+    border: 'border-orange-600/30 bg-orange-900/10'
+  },
+  // Tier 6: Offline (> 180 days)
+  offline: {
+    label: '离线 (OFFLINE)',
+    color: 'text-red-500',
+    dot: 'bg-red-600',
+    border: 'border-red-600/30 bg-red-900/10 shadow-[0_0_5px_rgba(220,38,38,0.2)]'
+  }
+};
+
+export const getActivityTier = (repo: Pick<Repo, 'isArchived' | 'isRateLimited' | 'lastPushedAt'>, now: number = Date.now()): ActivityTier => {
+  if (repo.isArchived) return 'archived';
+  if (repo.isRateLimited) return 'secure';
+  if (!repo.lastPushedAt) return 'unknown';
+
+  const daysSincePush = Math.floor((now - new Date(repo.lastPushedAt).getTime()) / DAY_MS);
+
+  if (daysSincePush <= 3) return 'critical';
+  if (daysSincePush <= 7) return 'online';
+  if (daysSincePush <= 30) return 'stable';
+  if (daysSincePush <= 90) return 'idle';
+  if (daysSincePush <= 180) return 'decay';
+  return 'offline';
+};
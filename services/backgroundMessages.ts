@@ -0,0 +1,11 @@
+// Names shared by the page and the service worker. Kept free of imports so the worker
+// can start without loading the scan code (see sw.ts).
+
+export const BACKGROUND_SYNC_TAG = 'cybergit-refresh';
+export const BACKGROUND_DONE_MESSAGE = 'cybergit:background-refreshed';
+
+export interface RefreshNotice {
+  title: string;
+  body: string;
+  tag: string; // Same tag replaces an older notification instead of stacking
+}
@@ -0,0 +1,99 @@
+import { CachedScan, Repo, TimeFrame, VaultEntry } from "../types";
+import { getProvider, isProviderConfigured, loadProviderConfig, loadSelectedProviderId, runProviderScan } from "./providers";
+import { GITHUB_TOKEN_SETTING, setGitHubToken } from "./githubService";
+import { getSecret } from "./keyVault";
+import { getLatestCheckpoint, loadRefreshSchedule } from "./refreshSchedule";
+import { repoKey } from "./scanDiff";
+import { saveScanSnapshot } from "./scanHistory";
+import { applyMeasuredVelocity, recordStarSnapshots } from "./starHistory";
+import { BACKGROUND_RUN_RECORD, VAULT_RECORD, cacheRecordKey, flushStorage, readRecord, writeRecord } from "./storage";
+import { frameKey, frameLabel, loadPinnedFrames } from "./timeFrames";
+import { VaultAlertEvent, isVaultStale, refreshVaultEntries } from "./vaultMonitor";
+import { RefreshNotice } from "./backgroundMessages";
+
+// Scheduled refresh outside the page: the service worker runs this on periodic sync.
+// The notice builders are shared with the page, which raises the same notifications
+// for scheduled scans when periodic sync is unavailable.
+
+const TOP_COUNT = 10;
+
+// Repos in this scan's top 10 that were not in the previous one
+export const findTopEntrants = (repos: Repo[], previous: Repo[]): Repo[] => {
+  const before = new Set(previous.slice(0, TOP_COUNT).map(r => repoKey(r.name)));
+  return repos.slice(0, TOP_COUNT).filter(r => !before.has(repoKey(r.name)));
+};
+
+export const entrantNotice = (entrants: Repo[], frame: TimeFrame): RefreshNotice | null => {
+  if (entrants.length === 0) return null;
+  return {
+    title: `CyberGit // ${frameLabel(frame)} 前十新增 ${entrants.length} 个目标`,
+    body: entrants.map(r => r.name).join('\n'),
+    tag: `cybergit-top-${frameKey(frame)}`
+  };
+};
+
+export const archivedNotice = (events: VaultAlertEvent[]): RefreshNotice | null => {
+  const archived = events.filter(e => e.alert.kind === 'archived');
+  if (archived.length === 0) return null;
+  return {
+    title: `CyberGit // 保险库中 ${archived.length} 个仓库已归档`,
+    body: archived.map(e => e.name).join('\n'),
+    tag: 'cybergit-vault-archived'
+  };
+};
+
+const refreshFirstPinnedFrame = async (checkpoint: number, now: number): Promise<RefreshNotice | null> => {
+  const frame = loadPinnedFrames()[0];
+  const key = cacheRecordKey(frameKey(frame));
+  const cached = readRecord<CachedScan | null>(key, null);
+  if (cached && cached.timestamp >= checkpoint) return null;
+
+  // Only the user's own core; its key may be unreadable here (locked key vault), then the scan waits
+  const provider = getProvider(loadSelectedProviderId());
+  const config = loadProviderConfig(provider);
+  if (!isProviderConfigured(provider, config)) {
+    console.warn(`Background refresh: ${provider.label} is not configured here, skipping the scan`);
+    return null;
+  }
+  const scan = await runProviderScan(provider, frame, config);
+  recordStarSnapshots(scan.repos);
+  const repos = applyMeasuredVelocity(scan.repos, frame);
+
+  writeRecord<CachedScan>(key, { data: repos, timestamp: now, sources: scan.sources });
+  await saveScanSnapshot({ ...scan, repos });
+  return cached ? entrantNotice(findTopEntrants(repos, cached.data), frame) : null;
+};
+
+const refreshVault = async (now: number): Promise<RefreshNotice | null> => {
+  const vault = readRecord<VaultEntry[]>(VAULT_RECORD, []);
+  if (!isVaultStale(vault, now)) return null;
+
+  const result = await refreshVaultEntries(vault, now);
+  writeRecord(VAULT_RECORD, vault.map(entry => (result.updates[entry.name] ? { ...entry, ...result.updates[entry.name] } : entry)));
+  return archivedNotice(result.raised);
+};
+
+// Runs at most once per schedule checkpoint; returns the notifications to raise
+export const runBackgroundRefresh = async (now: number = Date.now()): Promise<RefreshNotice[]> => {
+  const schedule = loadRefreshSchedule();
+  if (!schedule.background) return [];
+
+  const checkpoint = getLatestCheckpoint(schedule, now);
+  if (readRecord<number>(BACKGROUND_RUN_RECORD, 0) >= checkpoint) return [];
+
+  setGitHubToken(getSecret(GITHUB_TOKEN_SETTING));
+  const notices: (RefreshNotice | null)[] = [];
+
+  // Each part is independent; a failed scan must not skip the vault check
+  for (const step of [() => refreshFirstPinnedFrame(checkpoint, now), () => refreshVault(now)]) {
+    try {
+      notices.push(await step());
+    } catch (e) {
+      console.warn('Background refresh step failed', e);
+    }
+  }
+
+  writeRecord(BACKGROUND_RUN_RECORD, now);
+  await flushStorage();
+  return notices.filter((n): n is RefreshNotice => !!n);
+};
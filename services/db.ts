@@ -0,0 +1,70 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'cybergit';
+const DB_VERSION = 2;
+
+export const SCANS_STORE = 'scans';
+export const RECORDS_STORE = 'records'; // Versioned key/value records, see storage.ts
+
+// Structural migrations, keyed by the version they upgrade to.
+// Never edit a shipped step; add a new version instead.
+const MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
+  1: db => {
+    const scans = db.createObjectStore(SCANS_STORE, { keyPath: 'id', autoIncrement: true });
+    scans.createIndex('timestamp', 'timestamp');
+  },
+  2: db => {
+    db.createObjectStore(RECORDS_STORE);
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Run a single request against one store
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(run(tx.objectStore(storeName)));
+};
@@ -0,0 +1,73 @@
+import { GroundingSource, Repo } from "../types";
+import { repoKey } from "./scanDiff";
+
+// Consensus merge of several providers' validated results.
+// Repos are ranked by how many providers surfaced them, then by real GitHub stars.
+
+export interface EnsembleRun {
+  providerId: string;
+  repos: Repo[];
+  sources?: GroundingSource[];
+}
+
+const MAX_TAGS = 6;
+const MAX_MERGED = 20; // Same candidate budget each provider's prompt asks for
+
+// Prefer the entry that carries real GitHub metadata
+const hasMetadata = (repo: Repo) => repo.starsCount !== undefined && !repo.isRateLimited;
+
+const mergeTags = (a: string[], b: string[]): string[] => {
+  const seen = new Set(a.map(t => t.toLowerCase()));
+  const merged = [...a];
+  for (const tag of b) {
+    if (!seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      merged.push(tag);
+    }
+  }
+  return merged.slice(0, MAX_TAGS);
+};
+
+const mergeSources = (a: GroundingSource[] = [], b: GroundingSource[] = []): GroundingSource[] | undefined => {
+  const byUri = new Map(a.map(s => [s.uri, s]));
+  b.forEach(s => { if (!byUri.has(s.uri)) byUri.set(s.uri, s); });
+  return byUri.size > 0 ? Array.from(byUri.values()) : undefined;
+};
+
+const mergeRepo = (current: Repo, incoming: Repo): Repo => {
+  const base = !hasMetadata(current) && hasMetadata(incoming) ? { ...incoming } : { ...current };
+  return {
+    ...base,
+    // Longest description is usually the most specific one
+    description: incoming.description.length > current.description.length ? incoming.description : current.description,
+    tags: mergeTags(current.tags, incoming.tags),
+    sources: mergeSources(current.sources, incoming.sources),
+    surfacedBy: [...(current.surfacedBy || []), ...(incoming.surfacedBy || [])]
+  };
+};
+
+export const mergeEnsembleRuns = (runs: EnsembleRun[]): Repo[] => {
+  const merged = new Map<string, Repo>();
+
+  for (const run of runs) {
+    for (const repo of run.repos) {
+      const key = repoKey(repo.name);
+      const tagged: Repo = { ...repo, surfacedBy: [run.providerId] };
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, tagged);
+      } else if (!existing.surfacedBy?.includes(run.providerId)) {
+        merged.set(key, mergeRepo(existing, tagged));
+      }
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) =>
+    (b.surfacedBy?.length || 0) - (a.surfacedBy?.length || 0) ||
+    (b.starsCount ?? -1) - (a.starsCount ?? -1)
+  ).slice(0, MAX_MERGED);
+};
+
+export const mergeRunSources = (runs: EnsembleRun[]): GroundingSource[] | undefined => {
+  return runs.reduce<GroundingSource[] | undefined>((acc, run) => mergeSources(acc, run.sources), undefined);
+};
@@ -1,5 +1,10 @@
-import { GoogleGenAI } from "@google/genai";
-import { Repo, TimeFrame } from "../types";
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { CandidateBatch, GroundingSource, HuntProfile, Repo, RepoCandidate, TimeFrame } from "../types";
+import { REPO_JSON_SPEC, applyDescriptions, buildDescribePrompt, parseRepoCandidates } from "./repoPipeline";
+import { buildHuntFocus } from "./huntProfiles";
+import { describeFrameForPrompt } from "./timeFrames";
+import { REPO_CANDIDATE_FIELDS, REPO_DESCRIPTION_FIELDS, SchemaField } from "./repoSchema";
+import { emitScanLog } from "./scanEvents";
 
 const SYSTEM_INSTRUCTION = `
 You are CyberGit, an elite automated AI hunter specializing in finding trending open-source software on GitHub.
@@ -8,45 +13,37 @@ CRITICAL LANGUAGE RULE: ALL "description" fields MUST be in Simplified Chinese (
 Tone: Cyberpunk, concise, technical.
 `;
 
-// Helper: Fetch detailed metadata from GitHub
-// Note: Unauthenticated requests are limited to 60/hr.
-export const fetchRepoDetails = async (name: string): Promise<Partial<Repo> | null> => {
-  try {
-    const response = await fetch(`https://api.github.com/repos/${name}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/vnd.github.v3+json'
-      }
-    });
-    
-    if (response.status === 404) return null; // Repo doesn't exist
-    
-    if (response.status === 403 || response.status === 429) {
-      console.warn("GitHub API rate limit reached. Proceeding with limited data.");
-      return { isRateLimited: true }; // Flag as rate limited
-    }
+// responseSchema (array of objects) derived from the shared field definitions
+const toGeminiSchema = (fields: SchemaField[]): Schema => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(fields.map(f => [
+      f.name,
+      f.type === 'string[]'
+        ? { type: Type.ARRAY, items: { type: Type.STRING }, description: f.description }
+        : { type: Type.STRING, description: f.description }
+    ])),
+    required: fields.map(f => f.name),
+    propertyOrdering: fields.map(f => f.name)
+  }
+});
 
-    if (!response.ok) return null;
+// Gemini may refuse a JSON response mime type together with the googleSearch tool.
+// Remember the refusal for this session so every scan does not pay for a failed call.
+let structuredSearchSupported = true;
 
-    const data = await response.json();
-    
-    return {
-      lastPushedAt: data.pushed_at,
-      isArchived: data.archived,
-      starsCount: data.stargazers_count,
-      language: data.language,
-      isRateLimited: false
-    };
+// Only the specific refusal ("Tool use with a response mime type: 'application/json' is unsupported"
+// and its schema variants). A bad key or any other 400 / INVALID_ARGUMENT must not disable the mode.
+const STRUCTURED_MODE_FIELD = /response[ _]?mime[ _]?type|response[ _]?schema|controlled generation/i;
+const STRUCTURED_MODE_REFUSAL = /unsupported|not supported|tool/i;
 
-  } catch (e) {
-    console.warn(`Network error checking repo ${name}`, e);
-    // If network fails (not 404), assume it might exist but we can't verify. 
-    // Return empty implies we default to basic display.
-    return { isRateLimited: true }; 
-  }
+export const isStructuredModeRejection = (error: unknown): boolean => {
+  const msg = error instanceof Error ? error.message : String(error);
+  return STRUCTURED_MODE_FIELD.test(msg) && STRUCTURED_MODE_REFUSAL.test(msg);
 };
 
-export const validateGeminiKey = async (apiKey: string): Promise<boolean> => {
+export const validateGeminiKey = async (apiKey: string, signal?: AbortSignal): Promise<boolean> => {
   if (!apiKey) return false;
   const ai = new GoogleGenAI({ apiKey });
   try {
@@ -54,7 +51,7 @@ export const validateGeminiKey = async (apiKey: string): Promise<boolean> => {
     await ai.models.generateContent({
       model: "gemini-2.5-flash",
       contents: "ping",
-      config: { maxOutputTokens: 1 }
+      config: { maxOutputTokens: 1, abortSignal: signal }
     });
     return true;
   } catch (e) {
@@ -63,143 +60,127 @@ export const validateGeminiKey = async (apiKey: string): Promise<boolean> => {
   }
 };
 
-export const fetchTrendingRepos = async (timeFrame: TimeFrame, apiKey: string): Promise<Repo[]> => {
+// Collect the web pages the model cited (groundingMetadata) and attach them to the
+// candidates whose name appears in the supported text segment.
+const attachGroundingSources = (response: GenerateContentResponse, candidates: RepoCandidate[]): CandidateBatch => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunkSources: (GroundingSource | null)[] = (metadata?.groundingChunks || []).map(chunk =>
+    chunk.web?.uri ? { title: chunk.web.title || chunk.web.uri, uri: chunk.web.uri } : null
+  );
+  const sources = chunkSources.filter((s): s is GroundingSource => s !== null);
+  if (sources.length === 0) return { candidates };
+
+  const supports = metadata?.groundingSupports || [];
+
+  const withSources = candidates.map(candidate => {
+    const name = String(candidate.name || '').toLowerCase();
+    const shortName = name.split('/')[1] || name;
+    const cited = new Map<string, GroundingSource>();
+
+    for (const support of supports) {
+      const text = (support.segment?.text || '').toLowerCase();
+      if (!text.includes(name) && !(shortName.length > 3 && text.includes(shortName))) continue;
+      for (const idx of support.groundingChunkIndices || []) {
+        const source = chunkSources[idx];
+        if (source) cited.set(source.uri, source);
+      }
+    }
+
+    // Fallback: a cited page whose title/URL mentions the repo directly
+    if (cited.size === 0) {
+      for (const source of sources) {
+        const haystack = `${source.title} ${source.uri}`.toLowerCase();
+        if (haystack.includes(name)) cited.set(source.uri, source);
+      }
+    }
+
+    return cited.size > 0 ? { ...candidate, sources: Array.from(cited.values()) } : candidate;
+  });
+
+  return { candidates: withSources, sources };
+};
+
+export const fetchGeminiCandidates = async (timeFrame: TimeFrame, apiKey: string, profile?: HuntProfile, signal?: AbortSignal): Promise<CandidateBatch> => {
   if (!apiKey) {
     throw new Error("请配置 Google API Key 以继续");
   }
 
   const ai = new GoogleGenAI({ apiKey });
 
-  const dayMap = {
-    '3d': '3',
-    '7d': '7',
-    '14d': '14'
-  };
-
-  const days = dayMap[timeFrame];
+  const window = describeFrameForPrompt(timeFrame);
   
   // Prompt optimized: Ask for 20 items to allow for 404 filtering buffer
-  const prompt = `
-    Run a Google Search to find the top 20 specific GitHub repositories that are "trending" or have "skyrocketing stars" in the last ${days} days.
+  const buildPrompt = (structured: boolean) => `
+    Run a Google Search to find the top 20 specific GitHub repositories that are "trending" or have "skyrocketing stars" ${window}.
     Look for lists like "GitHub trending [current month]", "top github repos this week", or "fastest growing repos".
     
     CRITICAL: You must extract REAL repository data from the search results. Do not hallucinate.
-    
-    Format the output as a STRICT JSON ARRAY.
-    
-    JSON SYNTAX RULES (CRITICAL):
-    1. Output ONLY the JSON array. No Markdown, no code blocks, no intro text.
-    2. Use double quotes for all keys and string values.
-    3. **DO NOT** use double quotes (") INSIDE descriptions. Use single quotes (') instead.
-    4. NO trailing commas.
-    5. **TRANSLATION**: The "description" value MUST be in Simplified Chinese (简体中文). It must be a detailed summary of the tool's core features, usage scenarios, and technical advantages, strictly between 80 and 100 characters.
-    
-    JSON Structure Example:
-    [
-      {
-        "name": "owner/repo",
-        "url": "https://github.com/owner/repo",
-        "description": "这是一个非常强大的开源工具，它提供了自动化部署、实时监控以及智能分析功能。该项目采用Rust编写，性能极高，特别适合处理大规模并发请求，是当前DevOps领域的热门选择。",
-        "starsTrend": "+100 stars/day",
-        "tags": ["Tag1", "Tag2"]
-      }
-    ]
+    ${buildHuntFocus(profile)}
+    ${structured ? 'Return the repositories using the configured response schema. All "description" values in Simplified Chinese, 80-100 characters.' : REPO_JSON_SPEC}
   `;
 
+  const baseConfig = {
+    tools: [{ googleSearch: {} }],
+    systemInstruction: SYSTEM_INSTRUCTION,
+    temperature: 0.1,
+    abortSignal: signal,
+  };
+
   try {
+    if (structuredSearchSupported) {
+      try {
+        const response = await ai.models.generateContent({
+          model: "gemini-2.5-flash",
+          contents: buildPrompt(true),
+          config: {
+            ...baseConfig,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(REPO_CANDIDATE_FIELDS),
+          },
+        });
+        return attachGroundingSources(response, parseRepoCandidates(response.text || "", "Gemini"));
+      } catch (e: unknown) {
+        if (signal?.aborted || !isStructuredModeRejection(e)) throw e;
+        structuredSearchSupported = false;
+        console.warn("Gemini rejected structured output with search grounding:", e);
+        emitScanLog('[Gemini] 搜索模式不支持 JSON Schema，回退至文本提示。');
+      }
+    }
+
     const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.1, 
-      },
+      contents: buildPrompt(false),
+      config: baseConfig,
     });
 
-    let text = response.text || "";
-    
-    // Step 1: Remove Markdown code blocks
-    text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-
-    // Step 2: Extract the array part only
-    const firstBracket = text.indexOf('[');
-    const lastBracket = text.lastIndexOf(']');
-    
-    if (firstBracket !== -1 && lastBracket !== -1) {
-      text = text.substring(firstBracket, lastBracket + 1);
-    } else {
-      console.warn("No JSON array brackets found in response:", text);
-      throw new Error("API响应未包含有效的数据格式");
-    }
-
-    // Step 3: Remove trailing commas
-    text = text.replace(/,(\s*[\]}])/g, '$1');
-
-    try {
-      const allCandidates = JSON.parse(text);
-      if (!Array.isArray(allCandidates)) {
-        throw new Error("返回数据不是数组格式");
-      }
-
-      // Step 4: Validate Repos and merge metadata
-      const validRepos: Repo[] = [];
-      const TARGET_COUNT = 10;
-      
-      console.log(`Validating ${allCandidates.length} candidates...`);
-
-      for (const repo of allCandidates) {
-        // Stop if we have enough
-        if (validRepos.length >= TARGET_COUNT) break;
-
-        if (!repo.name) continue;
-
-        // CLEANING: Remove URL prefix and .git suffix to get clean "owner/repo"
-        let cleanName = repo.name
-          .replace(/^https?:\/\/github\.com\//, '')
-          .replace(/\.git$/, '')
-          .trim();
-        
-        // Remove trailing slash if present
-        if (cleanName.endsWith('/')) {
-            cleanName = cleanName.slice(0, -1);
-        }
-
-        if (!cleanName.includes('/')) continue; // Must be owner/repo
-
-        // Check against GitHub API and get details
-        const details = await fetchRepoDetails(cleanName);
-        
-        if (details) {
-          validRepos.push({
-            ...repo,
-            name: cleanName, // Use the cleaned name
-            ...details // Merge real GitHub data
-          } as Repo);
-        } else {
-          console.warn(`Filtering out dead repo: ${cleanName}`);
-        }
-      }
-
-      if (validRepos.length === 0) {
-        throw new Error("未能找到有效的项目数据 (所有候选项均无法访问)");
-      }
-
-      return validRepos;
+    return attachGroundingSources(response, parseRepoCandidates(response.text || "", "Gemini"));
 
-    } catch (e: any) {
-      console.error("JSON Parse/Validation Error:", e);
-      // If parsing fails completely, throw generic error
-      if (e.message.includes("DATA_CORRUPTION")) throw e;
-      throw new Error("数据流解析失败 (DATA_CORRUPTION): " + e.message);
-    }
-
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error("Gemini API Error:", error);
     throw error;
   }
 };
 
+// Describe-only pass for repos sourced directly from GitHub (no search grounding needed)
+export const describeReposWithGemini = async (repos: Repo[], apiKey: string, signal?: AbortSignal): Promise<Repo[]> => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: buildDescribePrompt(repos),
+    config: {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      temperature: 0.2,
+      abortSignal: signal,
+      // No search tool here, so native JSON mode is always available
+      responseMimeType: "application/json",
+      responseSchema: toGeminiSchema(REPO_DESCRIPTION_FIELDS),
+    },
+  });
+
+  return applyDescriptions(repos, parseRepoCandidates(response.text || "", "Gemini"));
+};
+
 export const generateRepoImage = async (name: string, description: string, apiKey?: string): Promise<string | null> => {
   if (!apiKey) return null;
   
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildStarSeries, fetchStargazerSeries, searchTrendingRepos } from "./githubService";
+import { rollingDays } from "./timeFrames";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const NOW = Date.parse('2026-03-10T00:00:00Z');
+
+describe('buildStarSeries', () => {
+  it('counts stars per day back from the current total', () => {
+    const stamps = [NOW - 2.5 * DAY_MS, NOW - 0.5 * DAY_MS, NOW - 0.2 * DAY_MS];
+    expect(buildStarSeries(stamps, 3, 3, NOW)).toEqual([
+      { t: NOW - 3 * DAY_MS, stars: 0 },
+      { t: NOW - 2 * DAY_MS, stars: 1 },
+      { t: NOW - DAY_MS, stars: 1 },
+      { t: NOW, stars: 3 }
+    ]);
+  });
+
+  it('does not extrapolate before the oldest stamp when stars are missing', () => {
+    const stamps = [NOW - 1.5 * DAY_MS, NOW - 0.5 * DAY_MS];
+    expect(buildStarSeries(stamps, 1000, 3, NOW)).toEqual([
+      { t: NOW - DAY_MS, stars: 999 },
+      { t: NOW, stars: 1000 }
+    ]);
+  });
+
+  it('returns null when fewer than two days are covered', () => {
+    expect(buildStarSeries([NOW - 0.5 * DAY_MS], 1000, 14, NOW)).toBeNull();
+  });
+});
+
+describe('fetchStargazerSeries', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Every page holds stamps `ageDays` old, newest pages last like the real API
+  const stubStargazers = (status = 200, ageDays: (page: number) => number = () => 0.5) => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get('page'));
+      const starredAt = new Date(Date.now() - ageDays(page) * DAY_MS).toISOString();
+      return new Response(JSON.stringify([{ starred_at: starredAt }]), { status });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+  const pagesOf = (fetchMock: ReturnType<typeof stubStargazers>) =>
+    fetchMock.mock.calls.map(([url]) => Number(new URL(url).searchParams.get('page')));
+
+  it('pages backwards until the stamps reach past the window', async () => {
+    // Page 20 (newest) is half a day old, each older page two days older
+    const fetchMock = stubStargazers(200, page => 0.5 + (20 - page) * 2);
+    const series = await fetchStargazerSeries('a/trending', 2000, 14);
+    expect(pagesOf(fetchMock)).toEqual([20, 19, 18, 17, 16, 15, 14, 13]);
+    expect(series).toHaveLength(15);
+  });
+
+  it('stops at the page budget and keeps the part of the window it covered', async () => {
+    // Each page half a day older than the next: ten pages reach back 4.6 days
+    const fetchMock = stubStargazers(200, page => 0.1 + (400 - page) * 0.5);
+    const series = await fetchStargazerSeries('a/viral', 39950, 14);
+    expect(pagesOf(fetchMock)).toEqual([400, 399, 398, 397, 396, 395, 394, 393, 392, 391]);
+    expect(series).toHaveLength(5);
+  });
+
+  it('skips repos beyond the last page GitHub serves', async () => {
+    const fetchMock = stubStargazers();
+    expect(await fetchStargazerSeries('a/huge', 50000, 14)).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries after a failed request instead of caching it', async () => {
+    const failing = stubStargazers(500);
+    expect(await fetchStargazerSeries('a/flaky', 50, 14)).toBeNull();
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    const working = stubStargazers();
+    await fetchStargazerSeries('a/flaky', 50, 14);
+    await fetchStargazerSeries('a/flaky', 50, 14);
+    expect(working).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('searchTrendingRepos', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const item = (name: string, stars: number) => ({
+    full_name: name, html_url: `https://github.com/${name}`, stargazers_count: stars, created_at: '2026-01-01T00:00:00Z'
+  });
+
+  it('alternates new and recently pushed repos without duplicates', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const query = new URL(url, 'https://api.github.com').searchParams.get('q') ?? '';
+      const items = query.includes('created:')
+        ? [item('a/new', 900), item('b/shared', 500)]
+        : [item('c/old', 90000), item('b/shared', 500), item('d/busy', 300)];
+      return new Response(JSON.stringify({ items }), { status: 200 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const repos = await searchTrendingRepos(rollingDays(3), 4);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(repos.map(r => r.name)).toEqual(['a/new', 'c/old', 'b/shared', 'd/busy']);
+  });
+});
@@ -0,0 +1,351 @@
+import { GitHubRateLimit, Repo, StarSnapshot, TimeFrame } from "../types";
+import { frameDateQualifier } from "./timeFrames";
+
+const GITHUB_API = 'https://api.github.com';
+
+// Settings slot of the token (encrypted when the key vault is on)
+export const GITHUB_TOKEN_SETTING = 'cybergit_gh_token';
+
+// Personal access token set by the UI; empty means unauthenticated mode (60 req/hr)
+let githubToken = '';
+
+export const setGitHubToken = (token: string) => {
+  githubToken = token.trim();
+};
+
+export const hasGitHubToken = (): boolean => !!githubToken;
+
+export const githubHeaders = (): Record<string, string> => {
+  const headers: Record<string, string> = { 'Accept': 'application/vnd.github.v3+json' };
+  if (githubToken) {
+    headers['Authorization'] = `Bearer ${githubToken}`;
+  }
+  return headers;
+};
+
+// --- Rate limit tracking (fed from response headers) ---
+
+type RateLimitListener = (limit: GitHubRateLimit) => void;
+const rateLimitListeners = new Set<RateLimitListener>();
+
+export const subscribeRateLimit = (listener: RateLimitListener): (() => void) => {
+  rateLimitListeners.add(listener);
+  return () => { rateLimitListeners.delete(listener); };
+};
+
+const publishRateLimit = (limit: GitHubRateLimit) => {
+  rateLimitListeners.forEach(listener => listener(limit));
+};
+
+const recordRateLimit = (response: Response) => {
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  const limit = response.headers.get('x-ratelimit-limit');
+  if (remaining === null || limit === null) return;
+
+  publishRateLimit({
+    resource: response.headers.get('x-ratelimit-resource') || 'core',
+    remaining: Number(remaining),
+    limit: Number(limit),
+    resetAt: Number(response.headers.get('x-ratelimit-reset') || 0) * 1000,
+    authenticated: !!githubToken
+  });
+};
+
+// Every GitHub call goes through here so auth + budget tracking stay consistent
+export const githubFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await fetch(`${GITHUB_API}${path}`, {
+    ...init,
+    headers: { ...githubHeaders(), ...(init.headers as Record<string, string> | undefined) }
+  });
+  recordRateLimit(response);
+
+  if (response.status === 401 && githubToken) {
+    console.warn("GitHub token rejected (401). Check the token in the KEY settings.");
+  }
+
+  return response;
+};
+
+// Helper: Fetch detailed metadata from GitHub
+// Note: Unauthenticated requests are limited to 60/hr, 5000/hr with a token.
+// Null only when GitHub says the repo does not exist; any other failure comes back unverified.
+export const fetchRepoDetails = async (name: string, signal?: AbortSignal): Promise<Partial<Repo> | null> => {
+  try {
+    const response = await githubFetch(`/repos/${name}`, { method: 'GET', signal });
+    
+    if (response.status === 404) return null; // Repo doesn't exist
+    
+    if (response.status === 403 || response.status === 429) {
+      console.warn("GitHub API rate limit reached. Proceeding with limited data.");
+      return { isRateLimited: true }; // Flag as rate limited
+    }
+
+    if (!response.ok) {
+      // Bad token, server error...: says nothing about the repo itself
+      console.warn(`GitHub returned ${response.status} for ${name}. Proceeding with limited data.`);
+      return { isRateLimited: true };
+    }
+
+    const data = await response.json();
+    
+    return {
+      lastPushedAt: data.pushed_at,
+      isArchived: data.archived,
+      starsCount: data.stargazers_count,
+      language: data.language,
+      isRateLimited: false
+    };
+
+  } catch (e) {
+    if (signal?.aborted) throw e; // Cancelled, not a network failure
+    console.warn(`Network error checking repo ${name}`, e);
+    // If network fails (not 404), assume it might exist but we can't verify. 
+    // Return empty implies we default to basic display.
+    return { isRateLimited: true }; 
+  }
+};
+
+// Batch enrichment: resolve many repos in a single GraphQL round-trip using aliased
+// repository(owner, name) fields. GraphQL always requires a token.
+// Returns null when the batch path is unavailable so callers can fall back to REST.
+export const fetchRepoDetailsBatch = async (names: string[], signal?: AbortSignal): Promise<Record<string, Partial<Repo> | null> | null> => {
+  if (!githubToken || names.length === 0) return null;
+
+  const variables: Record<string, string> = {};
+  const params: string[] = [];
+  const fields: string[] = [];
+
+  names.forEach((name, i) => {
+    const [owner, repo] = name.split('/');
+    variables[`o${i}`] = owner;
+    variables[`n${i}`] = repo;
+    params.push(`$o${i}: String!, $n${i}: String!`);
+    fields.push(`r${i}: repository(owner: $o${i}, name: $n${i}) { pushedAt isArchived stargazerCount primaryLanguage { name } }`);
+  });
+
+  const query = `query(${params.join(', ')}) {\n  ${fields.join('\n  ')}\n}`;
+
+  try {
+    const response = await githubFetch('/graphql', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+      signal
+    });
+
+    if (!response.ok) {
+      console.warn(`GitHub GraphQL batch failed (${response.status}). Falling back to REST.`);
+      return null;
+    }
+
+    const payload = await response.json();
+    // Missing repos come back as null fields with NOT_FOUND errors; anything else means the batch is unusable
+    if (!payload.data) {
+      console.warn("GitHub GraphQL batch returned no data. Falling back to REST.", payload.errors);
+      return null;
+    }
+
+    // A null field without NOT_FOUND (forbidden, timeout...) is unverified, not gone
+    const notFound = new Set<string>(
+      (payload.errors || [])
+        .filter((error: { type?: string }) => error.type === 'NOT_FOUND')
+        .map((error: { path?: string[] }) => error.path?.[0])
+    );
+
+    const results: Record<string, Partial<Repo> | null> = {};
+    names.forEach((name, i) => {
+      const node = payload.data[`r${i}`];
+      if (!node) {
+        results[name] = notFound.has(`r${i}`) ? null : { isRateLimited: true };
+        return;
+      }
+      results[name] = {
+        lastPushedAt: node.pushedAt,
+        isArchived: node.isArchived,
+        starsCount: node.stargazerCount,
+        language: node.primaryLanguage?.name,
+        isRateLimited: false
+      };
+    });
+    return results;
+
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn("Network error during GitHub GraphQL batch", e);
+    return null;
+  }
+};
+
+// Many repos: GraphQL in chunks (REST per repo without a token), keyed by the given names
+const DETAILS_BATCH_SIZE = 50; // Keeps GraphQL queries well under GitHub's node limits
+
+export const fetchAllRepoDetails = async (names: string[]): Promise<Record<string, Partial<Repo> | null>> => {
+  const results: Record<string, Partial<Repo> | null> = {};
+  for (let i = 0; i < names.length; i += DETAILS_BATCH_SIZE) {
+    const chunk = names.slice(i, i + DETAILS_BATCH_SIZE);
+    const batch = await fetchRepoDetailsBatch(chunk);
+    for (const name of chunk) {
+      results[name] = batch ? batch[name] : await fetchRepoDetails(name);
+    }
+  }
+  return results;
+};
+
+// Star history from the stargazers API (starred_at timestamps). Pages are read newest first,
+// walking backwards until the oldest stamp predates the window or the page budget is spent.
+// Cumulative counts are derived backwards from the current total. GitHub stops paginating
+// stargazers after 400 pages, so the newest stars of larger repos are out of reach.
+const STARGAZERS_PER_PAGE = 100;
+const MAX_STARGAZER_PAGE = 400;
+const STARGAZER_PAGE_BUDGET = 10; // Up to 1,000 recent stars per repo
+const DAY_MS = 1000 * 60 * 60 * 24;
+const stargazerSeriesCache = new Map<string, StarSnapshot[] | null>();
+
+// Daily cumulative star counts from the most recent starred_at stamps (sorted ascending)
+export const buildStarSeries = (stamps: number[], starsCount: number, days: number, now: number): StarSnapshot[] | null => {
+  // Unless we saw every star, do not extrapolate before the oldest one we have
+  const coveredFrom = starsCount > stamps.length && stamps.length > 0 ? stamps[0] : 0;
+  const series: StarSnapshot[] = [];
+
+  for (let d = days; d >= 0; d--) {
+    const t = now - d * DAY_MS;
+    if (t < coveredFrom) continue;
+    const starredAfter = stamps.filter(s => s > t).length;
+    series.push({ t, stars: starsCount - starredAfter });
+  }
+
+  return series.length >= 2 ? series : null;
+};
+
+const fetchStargazerStamps = async (name: string, page: number, signal?: AbortSignal): Promise<number[] | null> => {
+  const response = await githubFetch(`/repos/${name}/stargazers?per_page=${STARGAZERS_PER_PAGE}&page=${page}`, {
+    headers: { 'Accept': 'application/vnd.github.star+json' },
+    signal
+  });
+  if (!response.ok) return null;
+  const events: any[] = await response.json();
+  return events.map(e => new Date(e.starred_at).getTime()).filter(t => !Number.isNaN(t));
+};
+
+// Null when no usable history could be read. Failures (HTTP or network) are not cached,
+// so a later card mount can retry
+export const fetchStargazerSeries = async (name: string, starsCount: number, days: number, signal?: AbortSignal): Promise<StarSnapshot[] | null> => {
+  const cacheKey = `${name.toLowerCase()}:${days}`;
+  if (stargazerSeriesCache.has(cacheKey)) return stargazerSeriesCache.get(cacheKey) || null;
+
+  const lastPage = Math.ceil(starsCount / STARGAZERS_PER_PAGE);
+  if (lastPage < 1 || lastPage > MAX_STARGAZER_PAGE) return null;
+  const now = Date.now();
+  const windowStart = now - days * DAY_MS;
+
+  try {
+    const stamps: number[] = [];
+    const firstPage = Math.max(1, lastPage - STARGAZER_PAGE_BUDGET + 1);
+    for (let page = lastPage; page >= firstPage; page--) {
+      const pageStamps = await fetchStargazerStamps(name, page, signal);
+      if (!pageStamps) return null;
+      stamps.push(...pageStamps);
+      // Stamps are oldest first within a page: stop once this page reaches back past the window
+      if (pageStamps.length === 0 || pageStamps[0] <= windowStart) break;
+    }
+
+    stamps.sort((a, b) => a - b);
+    const series = buildStarSeries(stamps, starsCount, days, now);
+    stargazerSeriesCache.set(cacheKey, series);
+    return series;
+
+  } catch (e) {
+    if (!signal?.aborted) console.warn(`Network error fetching stargazers for ${name}`, e);
+    return null;
+  }
+};
+
+// Verify that the GitHub API (and token, if set) works; rate_limit does not count against the quota
+export const pingGitHub = async (signal?: AbortSignal): Promise<boolean> => {
+  try {
+    const response = await githubFetch('/rate_limit', { signal });
+    if (!response.ok) return false;
+
+    // The headers describe the rate_limit resource itself, the body holds the core budget
+    const data = await response.json();
+    const core = data.resources?.core;
+    if (core) {
+      publishRateLimit({
+        resource: 'core',
+        remaining: core.remaining,
+        limit: core.limit,
+        resetAt: core.reset * 1000,
+        authenticated: !!githubToken
+      });
+    }
+    return true;
+  } catch (e) {
+    console.error("GitHub Validation Failed:", e);
+    return false;
+  }
+};
+
+// Map a raw search item onto our Repo shape
+const toRepo = (item: any): Repo => {
+  const ageDays = Math.max(1, (Date.now() - new Date(item.created_at).getTime()) / DAY_MS);
+  const perDay = Math.round(item.stargazers_count / ageDays);
+
+  return {
+    name: item.full_name,
+    url: item.html_url,
+    description: item.description || '暂无描述',
+    starsTrend: `+${perDay} stars/day`,
+    tags: Array.isArray(item.topics) ? item.topics.slice(0, 4) : [],
+    lastPushedAt: item.pushed_at,
+    isArchived: item.archived,
+    starsCount: item.stargazers_count,
+    language: item.language || undefined,
+    isRateLimited: false
+  };
+};
+
+// Deterministic trending source: repos created inside the window, ranked by stars.
+// Since every star was earned inside the window, total stars == stars gained.
+// `qualifiers` narrows the search further (hunt profile keywords / languages / exclusions).
+const searchRepositories = async (qualifiers: string, limit: number, signal?: AbortSignal): Promise<unknown[]> => {
+  const query = encodeURIComponent(qualifiers.trim());
+
+  const response = await githubFetch(`/search/repositories?q=${query}&sort=stars&order=desc&per_page=${limit}`, { signal });
+
+  if (response.status === 403 || response.status === 429) {
+    throw new Error("GitHub Search API 触发速率限制，请稍后再试。");
+  }
+
+  if (!response.ok) {
+    throw new Error(`GitHub Search API Error (${response.status})`);
+  }
+
+  const data = await response.json();
+  return Array.isArray(data.items) ? data.items : [];
+};
+
+// New repos (`created:`) alone miss established projects that broke out this window,
+// so recently pushed repos are searched too and the two star-ranked lists alternate.
+export const searchTrendingRepos = async (timeFrame: TimeFrame, limit: number, qualifiers: string = '', signal?: AbortSignal): Promise<Repo[]> => {
+  const [created, pushed] = await Promise.all((['created', 'pushed'] as const).map(field =>
+    searchRepositories(`${qualifiers} ${frameDateQualifier(timeFrame, Date.now(), field)} archived:false`, limit, signal)
+  ));
+
+  const seen = new Set<string>();
+  const merged: Repo[] = [];
+  for (let i = 0; i < Math.max(created.length, pushed.length) && merged.length < limit; i++) {
+    for (const item of [created[i], pushed[i]]) {
+      if (!item || merged.length >= limit) continue;
+      const repo = toRepo(item);
+      if (seen.has(repo.name)) continue;
+      seen.add(repo.name);
+      merged.push(repo);
+    }
+  }
+
+  if (merged.length === 0) {
+    throw new Error("GitHub Search 未返回任何项目。");
+  }
+
+  return merged;
+};
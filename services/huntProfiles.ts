@@ -0,0 +1,64 @@
+import { HuntProfile, Repo } from "../types";
+import { HUNT_PROFILES_RECORD, readRecord, writeRecord } from "./storage";
+import { DEFAULT_FRAME, toTimeFrame } from "./timeFrames";
+
+// Topic-focused hunts: named keyword / language / exclusion sets that narrow
+// every provider prompt and the GitHub search query.
+
+// Profiles saved before custom windows stored their window as a '7d'-style string
+export const loadHuntProfiles = (): HuntProfile[] =>
+  readRecord<HuntProfile[]>(HUNT_PROFILES_RECORD, []).map(profile => ({
+    ...profile,
+    timeFrame: toTimeFrame(profile.timeFrame) || DEFAULT_FRAME
+  }));
+
+export const saveHuntProfiles = (profiles: HuntProfile[]) => {
+  writeRecord(HUNT_PROFILES_RECORD, profiles);
+};
+
+export const createProfileId = () => `hunt-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Prompt section injected after the generic task description
+export const buildHuntFocus = (profile?: HuntProfile): string => {
+  if (!profile) return '';
+
+  const rules: string[] = [];
+  if (profile.keywords.length > 0) {
+    rules.push(`- Only include repositories about: ${profile.keywords.join(', ')}.`);
+  }
+  if (profile.languages.length > 0) {
+    rules.push(`- Primary language must be one of: ${profile.languages.join(', ')}.`);
+  }
+  if (profile.exclusions.length > 0) {
+    rules.push(`- Exclude anything related to: ${profile.exclusions.join(', ')}.`);
+  }
+  if (rules.length === 0) return '';
+
+  return `
+    HUNT FOCUS "${profile.name}" (MANDATORY):
+    ${rules.join('\n    ')}
+    - Use these keywords when searching. Prefer fewer relevant repositories over generic trending ones.
+  `;
+};
+
+const quoteTerm = (term: string) => (/\s/.test(term) ? `"${term}"` : term);
+
+// GitHub search qualifiers for a profile (appended to the window / archived qualifiers)
+export const buildHuntSearchQualifiers = (profile?: HuntProfile): string => {
+  if (!profile) return '';
+  return [
+    profile.keywords.map(quoteTerm).join(' OR '),
+    ...profile.languages.map(language => `language:${quoteTerm(language)}`),
+    ...profile.exclusions.map(term => `NOT ${quoteTerm(term)}`)
+  ].filter(Boolean).join(' ');
+};
+
+// Models don't always honour exclusions; drop candidates that mention an excluded term
+export const isExcludedByProfile = (repo: Pick<Repo, 'name' | 'description' | 'tags'>, profile?: HuntProfile): boolean => {
+  if (!profile || profile.exclusions.length === 0) return false;
+  const haystack = [repo.name, repo.description, ...(Array.isArray(repo.tags) ? repo.tags : [])]
+    .filter(value => typeof value === 'string')
+    .join(' ')
+    .toLowerCase();
+  return profile.exclusions.some(term => haystack.includes(term.toLowerCase()));
+};
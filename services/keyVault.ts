@@ -0,0 +1,119 @@
+import { KEY_VAULT_RECORD, getSetting, readRecord, removeRecord, removeSetting, setSetting, writeRecord } from "./storage";
+
+// Optional passphrase protection for API keys and tokens.
+// When enabled, secrets are stored only as one AES-GCM blob whose key is derived
+// from the passphrase with PBKDF2. Decrypted values live in memory until locked.
+
+const PBKDF2_ITERATIONS = 310000;
+
+interface EncryptedVault {
+  salt: string;       // Base64
+  iv: string;         // Base64, fresh for every write
+  ciphertext: string; // Base64 of JSON Record<settingName, value>
+  iterations: number;
+}
+
+export type VaultState = 'off' | 'locked' | 'unlocked';
+
+let sessionKey: CryptoKey | null = null;
+let secrets: Record<string, string> | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const loadVault = (): EncryptedVault | null => readRecord<EncryptedVault | null>(KEY_VAULT_RECORD, null);
+
+const sealSecrets = async (key: CryptoKey, salt: string, values: Record<string, string>) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(values));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+  writeRecord<EncryptedVault>(KEY_VAULT_RECORD, {
+    salt,
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext),
+    iterations: PBKDF2_ITERATIONS
+  });
+};
+
+export const getVaultState = (): VaultState => {
+  if (!loadVault()) return 'off';
+  return secrets ? 'unlocked' : 'locked';
+};
+
+// Secret setting (API key / token); empty while the vault is locked
+export const getSecret = (name: string): string => {
+  if (!loadVault()) return getSetting(name);
+  return secrets?.[name] || '';
+};
+
+export const setSecret = async (name: string, value: string) => {
+  const vault = loadVault();
+  if (!vault) {
+    setSetting(name, value);
+    return;
+  }
+  if (!secrets || !sessionKey) {
+    throw new Error('密钥保险箱已锁定，请先解锁。');
+  }
+  secrets = { ...secrets, [name]: value };
+  await sealSecrets(sessionKey, vault.salt, secrets);
+};
+
+// Encrypt the given plaintext settings and delete their cleartext copies
+export const enableVault = async (passphrase: string, secretNames: string[]) => {
+  if (loadVault()) throw new Error('密钥保险箱已启用。');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const values = Object.fromEntries(secretNames.map(name => [name, getSetting(name)]));
+
+  await sealSecrets(key, toBase64(salt), values);
+  secretNames.forEach(removeSetting);
+  sessionKey = key;
+  secrets = values;
+};
+
+// False when the passphrase is wrong (AES-GCM authentication fails)
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const vault = loadVault();
+  if (!vault) return true;
+
+  try {
+    const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+      key,
+      fromBase64(vault.ciphertext)
+    );
+    secrets = JSON.parse(new TextDecoder().decode(plaintext));
+    sessionKey = key;
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wipe decrypted secrets from memory; the encrypted blob stays
+export const lockVault = () => {
+  secrets = null;
+  sessionKey = null;
+};
+
+// Back to plaintext settings (requires an unlocked vault)
+export const disableVault = () => {
+  if (!secrets) throw new Error('密钥保险箱已锁定，请先解锁。');
+  Object.entries(secrets).forEach(([name, value]) => setSetting(name, value));
+  removeRecord(KEY_VAULT_RECORD);
+  lockVault();
+};
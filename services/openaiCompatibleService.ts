@@ -0,0 +1,226 @@
+import { HuntProfile, ProviderConfig, Repo, RepoCandidate, TimeFrame } from "../types";
+import { REPO_JSON_OBJECT_SPEC, REPO_JSON_SPEC, applyDescriptions, buildDescribePrompt, parseRepoCandidates } from "./repoPipeline";
+import { createStreamingArrayReader, validateRepoShape } from "./structuredParser";
+import { buildHuntFocus } from "./huntProfiles";
+import { describeFrameForPrompt } from "./timeFrames";
+import { emitScanLog } from "./scanEvents";
+
+// Generic client for any server speaking the OpenAI chat-completions wire format
+// (DeepSeek, Ollama, vLLM, LM Studio, ...).
+export interface ChatCompletionTarget {
+  label: string;     // Used in error messages / logs
+  endpoint: string;  // Full .../chat/completions URL
+  model: string;
+  apiKey?: string;   // Local servers usually run without auth
+  stream?: boolean;  // Stream candidate generation (SSE) so validation can start before it finishes
+}
+
+// Accept either a bare base URL (".../v1") or the full completions endpoint
+export const resolveChatEndpoint = (baseUrl: string): string => {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  if (trimmed.endsWith('/chat/completions')) return trimmed;
+  return `${trimmed}/chat/completions`;
+};
+
+const buildHeaders = (apiKey?: string): Record<string, string> => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) {
+    headers["Authorization"] = `Bearer ${apiKey}`;
+  }
+  return headers;
+};
+
+export const pingChatCompletion = async (target: ChatCompletionTarget, signal?: AbortSignal): Promise<boolean> => {
+  try {
+    const response = await fetch(target.endpoint, {
+      method: "POST",
+      headers: buildHeaders(target.apiKey),
+      body: JSON.stringify({
+        model: target.model,
+        messages: [
+          { role: "user", content: "ping" }
+        ],
+        max_tokens: 1
+      }),
+      signal
+    });
+    return response.ok;
+  } catch (e) {
+    console.error(`${target.label} Validation Failed:`, e);
+    return false;
+  }
+};
+
+type ChatMessage = { role: string; content: string };
+
+// Read a server-sent-events completion, reporting the content accumulated so far after every delta
+const readChatStream = async (response: Response, target: ChatCompletionTarget, onText: (content: string) => void): Promise<string> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let reasoning = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const payload = line.trim();
+      if (!payload.startsWith('data:')) continue; // Comments / keep-alives
+      const data = payload.slice(5).trim();
+      if (data === '[DONE]') continue;
+
+      let delta: { content?: string; reasoning_content?: string } | undefined;
+      try {
+        delta = JSON.parse(data).choices?.[0]?.delta;
+      } catch {
+        continue;
+      }
+      if (delta?.reasoning_content) reasoning += delta.reasoning_content;
+      if (delta?.content) {
+        content += delta.content;
+        onText(content);
+      }
+    }
+  }
+
+  if (reasoning) {
+      console.log(`【${target.label} Thinking Process】\n`, reasoning);
+  }
+  return content;
+};
+
+// POST a chat request and return the assistant message content.
+// With `onText` the request is streamed and the partial content reported as it grows.
+// In JSON mode a 400/422 means the server rejected response_format; that is reported as null.
+const requestChatCompletion = async (target: ChatCompletionTarget, messages: ChatMessage[], jsonMode: boolean = false, signal?: AbortSignal, onText?: (content: string) => void): Promise<string | null> => {
+  const response = await fetch(target.endpoint, {
+    method: "POST",
+    signal,
+    headers: buildHeaders(target.apiKey),
+    body: JSON.stringify({
+      model: target.model,
+      messages,
+      stream: !!onText,
+      ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+    })
+  });
+
+  if (response.status === 401) {
+     throw new Error(`${target.label} API 鉴权失败。请检查您的 API Key 是否正确。`);
+  }
+
+  if (jsonMode && (response.status === 400 || response.status === 422)) {
+    console.warn(`${target.label} rejected response_format:`, await response.text());
+    return null;
+  }
+
+  if (!response.ok) {
+    const errText = await response.text();
+    throw new Error(`${target.label} API Error (${response.status}): ${errText}`);
+  }
+
+  // Servers that ignore `stream` answer with plain JSON, which is read below as usual
+  if (onText && response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+    return readChatStream(response, target, onText);
+  }
+
+  const data = await response.json();
+  const message = data.choices?.[0]?.message;
+
+  // Reasoning models (R1, QwQ, ...) may return their chain of thought separately
+  const reasoning = message?.reasoning_content;
+  if (reasoning) {
+      console.log(`【${target.label} Thinking Process】\n`, reasoning);
+  }
+
+  return message?.content || "";
+};
+
+// Endpoints (endpoint + model) known to reject JSON mode, so we do not retry them every scan
+const jsonModeUnsupported = new Set<string>();
+
+// Prefer native JSON mode; fall back to the prose prompt only when the server rejects it
+const completeJson = async (target: ChatCompletionTarget, buildMessages: (jsonMode: boolean) => ChatMessage[], signal?: AbortSignal, onText?: (content: string) => void): Promise<string> => {
+  const key = `${target.endpoint}|${target.model}`;
+
+  if (!jsonModeUnsupported.has(key)) {
+    const content = await requestChatCompletion(target, buildMessages(true), true, signal, onText);
+    if (content !== null) return content;
+    jsonModeUnsupported.add(key);
+    emitScanLog(`[${target.label}] 不支持 JSON 结构化模式，回退至文本提示。`);
+  }
+
+  return (await requestChatCompletion(target, buildMessages(false), false, signal, onText)) || "";
+};
+
+const SYSTEM_PROMPT = "You are a professional tech trend analyst. Output JSON only. All descriptions in Simplified Chinese.";
+
+// Streaming targets hand each candidate to `onCandidate` as soon as its object is complete;
+// the parsed full response is still returned as the authoritative list.
+export const fetchChatCompletionCandidates = async (timeFrame: TimeFrame, target: ChatCompletionTarget, profile?: HuntProfile, signal?: AbortSignal, onCandidate?: (candidate: RepoCandidate) => void): Promise<RepoCandidate[]> => {
+  const window = describeFrameForPrompt(timeFrame);
+
+  const buildPrompt = (jsonMode: boolean) => `
+    Task: Identify 20 trending GitHub repositories ${window}.
+    Focus on projects with rapidly growing stars or high developer interest.
+    Since you cannot browse the live web, use your internal knowledge cutoff or infer based on evergreen popular projects or known rising stars in the tech scene.
+    Do not output any thinking process outside the specific reasoning tags (if applicable).
+    ${buildHuntFocus(profile)}
+    ${jsonMode ? REPO_JSON_OBJECT_SPEC : REPO_JSON_SPEC}
+  `;
+
+  const readCandidates = createStreamingArrayReader(validateRepoShape);
+  const onText = target.stream && onCandidate
+    ? (content: string) => readCandidates(content).forEach(onCandidate)
+    : undefined;
+
+  try {
+    const content = await completeJson(target, (jsonMode) => [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: buildPrompt(jsonMode) }
+    ], signal, onText);
+    return parseRepoCandidates(content, target.label);
+  } catch (error: unknown) {
+    console.error(`${target.label} Service Error:`, error);
+    throw error;
+  }
+};
+
+// Describe-only pass for repos sourced directly from GitHub
+export const describeReposWithChatCompletion = async (repos: Repo[], target: ChatCompletionTarget, signal?: AbortSignal): Promise<Repo[]> => {
+  const content = await completeJson(target, () => [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: buildDescribePrompt(repos) }
+  ], signal);
+  return applyDescriptions(repos, parseRepoCandidates(content, target.label));
+};
+
+// --- User-configured endpoint (settings modal) ---
+
+const toTarget = (config: ProviderConfig): ChatCompletionTarget => ({
+  label: 'OpenAI-Compatible',
+  endpoint: resolveChatEndpoint(config.baseUrl || ''),
+  model: config.model || '',
+  apiKey: config.apiKey || undefined
+});
+
+export const validateOpenAICompatible = async (config: ProviderConfig, signal?: AbortSignal): Promise<boolean> => {
+  if (!config.baseUrl || !config.model) return false;
+  return pingChatCompletion(toTarget(config), signal);
+};
+
+export const fetchOpenAICompatibleCandidates = async (timeFrame: TimeFrame, config: ProviderConfig, profile?: HuntProfile, signal?: AbortSignal, onCandidate?: (candidate: RepoCandidate) => void): Promise<RepoCandidate[]> => {
+  if (!config.baseUrl || !config.model) {
+    throw new Error("OpenAI 兼容接口未配置 Base URL 或模型名称。请点击 'KEY' 按钮设置。");
+  }
+  return fetchChatCompletionCandidates(timeFrame, toTarget(config), profile, signal, onCandidate);
+};
+
+export const describeReposWithOpenAICompatible = async (repos: Repo[], config: ProviderConfig, signal?: AbortSignal): Promise<Repo[]> => {
+  return describeReposWithChatCompletion(repos, toTarget(config), signal);
+};
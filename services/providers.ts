@@ -0,0 +1,422 @@
+import { CandidateBatch, HuntProfile, ProviderConfig, Repo, RepoCandidate, ScanResult, TimeFrame } from "../types";
+import { describeReposWithGemini, fetchGeminiCandidates, validateGeminiKey } from "./geminiService";
+import { describeReposWithDeepSeek, fetchDeepSeekCandidates, validateDeepSeekKey } from "./deepseekService";
+import { describeReposWithOpenAICompatible, fetchOpenAICompatibleCandidates, validateOpenAICompatible } from "./openaiCompatibleService";
+import { pingGitHub, searchTrendingRepos } from "./githubService";
+import { TARGET_COUNT, createCandidateValidator } from "./repoPipeline";
+import { EnsembleRun, mergeEnsembleRuns, mergeRunSources } from "./ensemble";
+import { emitScanLog, emitScanProgress, withTimeout } from "./scanEvents";
+import { buildHuntSearchQualifiers, isExcludedByProfile } from "./huntProfiles";
+import { getSetting, setSetting } from "./storage";
+import { getSecret, setSecret } from "./keyVault";
+
+// Tailwind class bundles used by the UI to colour everything tied to the active provider
+export interface ProviderTheme {
+  text: string;          // Headline text
+  overlayText: string;   // Loading overlay text
+  dot: string;           // Status dot fill
+  chip: string;          // Active selector chip
+  keyButton: string;     // Small outlined "KEY" button
+  modal: string;         // Key modal frame
+  input: string;         // Key input focus colours
+  solidButton: string;   // Filled primary button
+  spinner: string;       // Loading overlay spinner
+  ping: string;          // Scanning indicator (outer ring)
+  pingCore: string;      // Scanning indicator (core)
+  buttonVariant: 'cyan' | 'pink' | 'green';
+}
+
+// Extra settings (besides the API key) a provider asks for in the key modal
+export interface ProviderField {
+  name: 'baseUrl' | 'model' | 'describer' | 'timeout';
+  label: string;
+  placeholder: string;
+  storageKey: string;
+  optional?: boolean;
+  options?: () => { value: string; label: string }[]; // Renders as a select when present
+}
+
+export interface AIProvider {
+  id: string;
+  label: string;          // Human readable name, e.g. "DeepSeek V3.2"
+  badge: string;          // Uppercase model tag shown in the selector
+  shortBadge: string;     // Compact tag for mobile
+  keyStorageKey?: string; // Settings slot for the user's key (encrypted when the key vault is on)
+  keyPlaceholder: string;
+  keyHint: string;
+  keyMode?: 'required' | 'optional' | 'none'; // Defaults to required; local servers are optional
+  fields?: ProviderField[];
+  scanningTitle: string;
+  scanningHint: string;
+  defaultTimeout?: number; // Seconds allowed for fetchCandidates; adds a timeout field to the key modal
+  validateKey: (config: ProviderConfig, signal?: AbortSignal) => Promise<boolean>;
+  // Returns raw (unvalidated) candidates; validation is shared, see runProviderScan.
+  // A hunt profile, when given, must be woven into the provider's prompt / query.
+  // `signal` aborts on cancel or timeout and must reach every request the provider makes.
+  // Streaming providers may also hand candidates to `onCandidate` while still generating.
+  fetchCandidates: (timeFrame: TimeFrame, config: ProviderConfig, profile?: HuntProfile, signal?: AbortSignal, onCandidate?: (candidate: RepoCandidate) => void) => Promise<CandidateBatch>;
+  preValidated?: boolean; // Candidates already carry GitHub metadata, skip validation
+  // Optional: rewrite descriptions of externally sourced repos in Simplified Chinese
+  describeRepos?: (repos: Repo[], config: ProviderConfig, signal?: AbortSignal) => Promise<Repo[]>;
+  theme: ProviderTheme;
+}
+
+const registry = new Map<string, AIProvider>();
+
+export const registerProvider = (provider: AIProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const listProviders = (): AIProvider[] => Array.from(registry.values());
+
+export const DEFAULT_PROVIDER_ID = 'deepseek';
+
+export const getProvider = (id: string): AIProvider => {
+  return registry.get(id) || registry.get(DEFAULT_PROVIDER_ID) || listProviders()[0];
+};
+
+// The core picked in the header; background refresh scans with the same one
+const SELECTED_PROVIDER_SETTING = 'cybergit_provider';
+
+export const loadSelectedProviderId = (): string => getProvider(getSetting(SELECTED_PROVIDER_SETTING)).id;
+
+export const saveSelectedProviderId = (id: string) => {
+  setSetting(SELECTED_PROVIDER_SETTING, id);
+};
+
+// Provider-specific fields plus the shared timeout override
+export const listProviderFields = (provider: AIProvider): ProviderField[] => {
+  const fields = provider.fields || [];
+  if (provider.defaultTimeout === undefined) return fields;
+  return [...fields, {
+    name: 'timeout',
+    label: '超时 (秒)',
+    placeholder: `${provider.defaultTimeout} (默认)`,
+    storageKey: `cybergit_timeout_${provider.id}`,
+    optional: true
+  }];
+};
+
+// Configured timeout in seconds; 0 = unlimited
+export const resolveTimeout = (provider: AIProvider, config: ProviderConfig): number => {
+  const configured = Number(config.timeout);
+  if (config.timeout && Number.isFinite(configured) && configured >= 0) return configured;
+  return provider.defaultTimeout ?? 0;
+};
+
+// Read key + extra fields from the settings store
+export const loadProviderConfig = (provider: AIProvider): ProviderConfig => {
+  const config: ProviderConfig = {
+    apiKey: provider.keyStorageKey ? getSecret(provider.keyStorageKey) : ''
+  };
+  for (const field of listProviderFields(provider)) {
+    config[field.name] = getSetting(field.storageKey);
+  }
+  return config;
+};
+
+export const saveProviderConfig = async (provider: AIProvider, config: ProviderConfig) => {
+  if (provider.keyStorageKey) {
+    await setSecret(provider.keyStorageKey, config.apiKey);
+  }
+  for (const field of listProviderFields(provider)) {
+    setSetting(field.storageKey, config[field.name] || '');
+  }
+};
+
+export const isProviderConfigured = (provider: AIProvider, config?: ProviderConfig): boolean => {
+  if (!config) return false;
+  const keyMode = provider.keyMode || 'required';
+  if (keyMode === 'required' && !config.apiKey) return false;
+  return listProviderFields(provider).every(field => field.optional || !!config[field.name]);
+};
+
+// Full scan: provider prompt -> profile exclusions -> shared GitHub validation.
+// The provider timeout covers candidate generation only; validation is bounded by GitHub, not the model.
+// `onRepo` receives each confirmed repo as soon as validation accepts it, before the scan completes.
+export const runProviderScan = async (provider: AIProvider, timeFrame: TimeFrame, config: ProviderConfig, profile?: HuntProfile, signal?: AbortSignal, onRepo?: (repo: Repo) => void): Promise<ScanResult> => {
+  const start = Date.now();
+  const isAdmitted = (repo: RepoCandidate) => !isExcludedByProfile(repo, profile);
+  const validator = provider.preValidated ? null : createCandidateValidator(provider.label, signal, onRepo);
+  // Streamed candidates start validating while the model is still writing the rest
+  const onCandidate = validator
+    ? (candidate: RepoCandidate) => { if (isAdmitted(candidate)) validator.push(candidate); }
+    : undefined;
+
+  const limit = withTimeout(signal, resolveTimeout(provider, config), provider.label);
+  if (!provider.preValidated) emitScanProgress({ source: provider.label, phase: 'generate' });
+  let batch: CandidateBatch;
+  try {
+    batch = await provider.fetchCandidates(timeFrame, config, profile, limit.signal, onCandidate);
+  } catch (e) {
+    validator?.stop();
+    throw e;
+  } finally {
+    limit.clear();
+  }
+  const sources = batch.sources;
+  const candidates = batch.candidates.filter(isAdmitted);
+  if (candidates.length < batch.candidates.length) {
+    emitScanLog(`[狩猎] 按排除词过滤 ${batch.candidates.length - candidates.length} 个候选项。`);
+  }
+
+  let repos: Repo[];
+  if (validator) {
+    // The full parse is authoritative; anything already streamed is skipped as a duplicate
+    candidates.forEach(validator.push);
+    repos = await validator.finish();
+  } else {
+    repos = candidates as Repo[];
+    repos.forEach(repo => onRepo?.(repo));
+  }
+
+  return {
+    repos,
+    timestamp: new Date().toISOString(),
+    scanTimeTaken: ((Date.now() - start) / 1000).toFixed(2),
+    providerId: provider.id,
+    timeFrame,
+    profileId: profile?.id,
+    profileName: profile?.name,
+    sources
+  };
+};
+
+// --- Built-in providers ---
+
+registerProvider({
+  id: 'deepseek',
+  label: 'DeepSeek V3.2',
+  badge: 'DEEPSEEK-V3.2',
+  shortBadge: 'DEEPSEEK',
+  keyStorageKey: 'cybergit_ds_key',
+  keyPlaceholder: 'sk-...',
+  keyHint: '请输入您的 API Key 以接入 DeepSeek V3.2 网络。密钥仅存储在本地浏览器中。',
+  scanningTitle: 'DEEPSEEK V3.2 扫描中...',
+  scanningHint: '神经元网络分析 / 验证 GitHub 节点',
+  defaultTimeout: 120,
+  validateKey: (config, signal) => validateDeepSeekKey(config.apiKey, signal),
+  fetchCandidates: async (timeFrame, config, profile, signal, onCandidate) => ({ candidates: await fetchDeepSeekCandidates(timeFrame, config.apiKey, profile, signal, onCandidate) }),
+  describeRepos: (repos, config, signal) => describeReposWithDeepSeek(repos, config.apiKey, signal),
+  theme: {
+    text: 'text-indigo-400',
+    overlayText: 'text-indigo-400',
+    dot: 'bg-indigo-500',
+    chip: 'border-indigo-500/50 text-indigo-400 bg-indigo-900/10',
+    keyButton: 'border-indigo-500/30 text-indigo-300 hover:bg-indigo-500/20',
+    modal: 'border-indigo-500 shadow-indigo-500/30',
+    input: 'text-indigo-100 focus:border-indigo-500 focus:shadow-[0_0_10px_rgba(99,102,241,0.3)]',
+    solidButton: 'bg-indigo-600 hover:bg-indigo-500 shadow-indigo-500/30',
+    spinner: 'border-indigo-500 border-b-indigo-300',
+    ping: 'bg-indigo-400',
+    pingCore: 'bg-indigo-500',
+    buttonVariant: 'cyan'
+  }
+});
+
+registerProvider({
+  id: 'google',
+  label: 'Google Gemini',
+  badge: 'GEMINI-2.5-FLASH',
+  shortBadge: 'GEMINI',
+  keyStorageKey: 'cybergit_google_key',
+  keyPlaceholder: 'AIzaSy...',
+  keyHint: '请输入您的 Google Gemini API Key 以启用搜索和图像生成。密钥仅存储在本地浏览器中。',
+  scanningTitle: '正在接入主网...',
+  scanningHint: '解密 GitHub API 信号流',
+  defaultTimeout: 120, // Search grounding runs several web queries first
+  validateKey: (config, signal) => validateGeminiKey(config.apiKey, signal),
+  fetchCandidates: (timeFrame, config, profile, signal) => fetchGeminiCandidates(timeFrame, config.apiKey, profile, signal),
+  describeRepos: (repos, config, signal) => describeReposWithGemini(repos, config.apiKey, signal),
+  theme: {
+    text: 'text-green-400',
+    overlayText: 'text-cyan-400',
+    dot: 'bg-green-500',
+    chip: 'border-green-500/50 text-green-400 bg-green-900/10',
+    keyButton: 'border-green-500/30 text-green-300 hover:bg-green-500/20',
+    modal: 'border-green-500 shadow-green-500/30',
+    input: 'text-green-100 focus:border-green-500 focus:shadow-[0_0_10px_rgba(34,197,94,0.3)]',
+    solidButton: 'bg-green-600 hover:bg-green-500 shadow-green-500/30',
+    spinner: 'border-cyan-500 border-b-fuchsia-500',
+    ping: 'bg-fuchsia-400',
+    pingCore: 'bg-fuchsia-500',
+    buttonVariant: 'pink'
+  }
+});
+
+registerProvider({
+  id: 'openai-compatible',
+  label: 'OpenAI Compatible',
+  badge: 'OPENAI-COMPAT',
+  shortBadge: 'LOCAL',
+  keyStorageKey: 'cybergit_oai_key',
+  keyPlaceholder: 'sk-... (可选)',
+  keyHint: '接入任意 OpenAI 兼容接口 (Ollama / vLLM / LM Studio)。填写 Base URL 与模型名称，本地服务可不填密钥。配置仅存储在本地浏览器中。',
+  keyMode: 'optional',
+  fields: [
+    { name: 'baseUrl', label: 'Base URL', placeholder: 'http://localhost:11434/v1', storageKey: 'cybergit_oai_base_url' },
+    { name: 'model', label: '模型名称', placeholder: 'qwen2.5:14b', storageKey: 'cybergit_oai_model' }
+  ],
+  scanningTitle: '本地神经节点扫描中...',
+  scanningHint: '自定义推理端点 / 验证 GitHub 节点',
+  defaultTimeout: 300, // Local models on consumer hardware are slow
+  validateKey: validateOpenAICompatible,
+  fetchCandidates: async (timeFrame, config, profile, signal, onCandidate) => ({ candidates: await fetchOpenAICompatibleCandidates(timeFrame, config, profile, signal, onCandidate) }),
+  describeRepos: describeReposWithOpenAICompatible,
+  theme: {
+    text: 'text-amber-400',
+    overlayText: 'text-amber-400',
+    dot: 'bg-amber-500',
+    chip: 'border-amber-500/50 text-amber-400 bg-amber-900/10',
+    keyButton: 'border-amber-500/30 text-amber-300 hover:bg-amber-500/20',
+    modal: 'border-amber-500 shadow-amber-500/30',
+    input: 'text-amber-100 focus:border-amber-500 focus:shadow-[0_0_10px_rgba(245,158,11,0.3)]',
+    solidButton: 'bg-amber-600 hover:bg-amber-500 shadow-amber-500/30',
+    spinner: 'border-amber-500 border-b-amber-300',
+    ping: 'bg-amber-400',
+    pingCore: 'bg-amber-500',
+    buttonVariant: 'green'
+  }
+});
+
+// GitHub Search needs no LLM; an AI provider may optionally write the Chinese descriptions
+const fetchGitHubSearchCandidates = async (timeFrame: TimeFrame, config: ProviderConfig, profile?: HuntProfile, signal?: AbortSignal): Promise<Repo[]> => {
+  const repos = await searchTrendingRepos(timeFrame, TARGET_COUNT, buildHuntSearchQualifiers(profile), signal);
+  if (!config.describer) return repos;
+
+  const describer = registry.get(config.describer);
+  if (!describer || !describer.describeRepos) return repos;
+
+  const describerConfig = loadProviderConfig(describer);
+  if (!isProviderConfigured(describer, describerConfig)) {
+    console.warn(`[GitHub Search] ${describer.label} is not configured, keeping original descriptions.`);
+    return repos;
+  }
+
+  try {
+    emitScanProgress({ source: describer.label, phase: 'describe' });
+    return await describer.describeRepos(repos, describerConfig, signal);
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    // Descriptions are cosmetic; never fail a deterministic scan because of them
+    console.warn(`[GitHub Search] ${describer.label} description pass failed`, e);
+    return repos;
+  }
+};
+
+registerProvider({
+  id: 'github-search',
+  label: 'GitHub Search',
+  badge: 'GITHUB-SEARCH',
+  shortBadge: 'GITHUB',
+  keyPlaceholder: '',
+  keyHint: '无需 AI 密钥：直接查询 GitHub Search API，按星标数合并时间窗口内新建与近期活跃的项目。可选择一个已配置的 AI 核心生成中文描述。',
+  keyMode: 'none',
+  fields: [
+    {
+      name: 'describer',
+      label: '中文描述生成 (可选)',
+      placeholder: '不使用 AI (保留原始描述)',
+      storageKey: 'cybergit_gh_describer',
+      optional: true,
+      options: () => listProviders()
+        .filter(p => p.describeRepos)
+        .map(p => ({ value: p.id, label: p.label }))
+    }
+  ],
+  scanningTitle: 'GITHUB 搜索序列执行中...',
+  scanningHint: '直连 GitHub Search API / 无需神经网络',
+  defaultTimeout: 60, // Includes the optional description pass
+  validateKey: (_config, signal) => pingGitHub(signal),
+  fetchCandidates: async (timeFrame, config, profile, signal) => ({ candidates: await fetchGitHubSearchCandidates(timeFrame, config, profile, signal) }),
+  preValidated: true,
+  theme: {
+    text: 'text-sky-300',
+    overlayText: 'text-sky-300',
+    dot: 'bg-sky-400',
+    chip: 'border-sky-400/50 text-sky-300 bg-sky-900/10',
+    keyButton: 'border-sky-400/30 text-sky-200 hover:bg-sky-400/20',
+    modal: 'border-sky-400 shadow-sky-400/30',
+    input: 'text-sky-100 focus:border-sky-400 focus:shadow-[0_0_10px_rgba(56,189,248,0.3)]',
+    solidButton: 'bg-sky-600 hover:bg-sky-500 shadow-sky-500/30',
+    spinner: 'border-sky-400 border-b-sky-200',
+    ping: 'bg-sky-300',
+    pingCore: 'bg-sky-400',
+    buttonVariant: 'cyan'
+  }
+});
+
+// Ensemble: every configured AI provider in parallel, merged into a consensus ranking.
+// Pre-validated sources (GitHub Search, the ensemble itself) are no model's opinion, so they
+// neither count as a configured core nor cast a consensus vote.
+const ENSEMBLE_ID = 'ensemble';
+
+const listEnsembleMembers = (): { provider: AIProvider; config: ProviderConfig }[] => {
+  return listProviders()
+    .filter(p => !p.preValidated)
+    .map(provider => ({ provider, config: loadProviderConfig(provider) }))
+    .filter(({ provider, config }) => isProviderConfigured(provider, config));
+};
+
+// Each member runs under its own timeout; a cancel reaches all of them through `signal`
+const fetchEnsembleCandidates = async (timeFrame: TimeFrame, profile?: HuntProfile, signal?: AbortSignal): Promise<CandidateBatch> => {
+  const members = listEnsembleMembers();
+  if (members.length === 0) {
+    throw new Error('集成模式 API Key 未配置：至少需要配置一个 AI 核心。');
+  }
+  emitScanLog(`[集成] 并行调用 ${members.map(m => m.provider.label).join(' / ')}...`);
+
+  const settled = await Promise.allSettled(
+    members.map(({ provider, config }) => runProviderScan(provider, timeFrame, config, profile, signal))
+  );
+  signal?.throwIfAborted();
+
+  const runs: EnsembleRun[] = [];
+  settled.forEach((result, i) => {
+    const { provider } = members[i];
+    if (result.status === 'fulfilled') {
+      emitScanLog(`[集成] ${provider.label}: ${result.value.repos.length} 个目标 (${result.value.scanTimeTaken}秒)`);
+      runs.push({ providerId: provider.id, repos: result.value.repos, sources: result.value.sources });
+    } else {
+      emitScanLog(`[集成] ${provider.label} 失败: ${result.reason?.message || '未知错误'}`);
+    }
+  });
+
+  if (runs.length === 0) {
+    throw new Error('集成模式: 所有 AI 核心均扫描失败。');
+  }
+
+  const candidates = mergeEnsembleRuns(runs);
+  const agreed = candidates.filter(r => (r.surfacedBy?.length || 0) > 1).length;
+  emitScanLog(`[集成] 合并去重后 ${candidates.length} 个目标，其中 ${agreed} 个获得多核共识。`);
+  return { candidates, sources: mergeRunSources(runs) };
+};
+
+registerProvider({
+  id: ENSEMBLE_ID,
+  label: 'Ensemble Consensus',
+  badge: 'ENSEMBLE',
+  shortBadge: 'ALL',
+  keyPlaceholder: '',
+  keyHint: '集成模式：并行调用所有已配置的 AI 核心 (不含 GitHub Search)，按仓库去重并合并标签与描述，依据共识数量与真实星标数排序。无需额外密钥，请先在各核心中配置密钥。',
+  keyMode: 'none',
+  scanningTitle: '多核集成扫描中...',
+  scanningHint: '并行调用全部核心 / 共识排序',
+  validateKey: async () => listEnsembleMembers().length > 0,
+  fetchCandidates: (timeFrame, _config, profile, signal) => fetchEnsembleCandidates(timeFrame, profile, signal),
+  preValidated: true,
+  theme: {
+    text: 'text-fuchsia-400',
+    overlayText: 'text-fuchsia-400',
+    dot: 'bg-fuchsia-500',
+    chip: 'border-fuchsia-500/50 text-fuchsia-400 bg-fuchsia-900/10',
+    keyButton: 'border-fuchsia-500/30 text-fuchsia-300 hover:bg-fuchsia-500/20',
+    modal: 'border-fuchsia-500 shadow-fuchsia-500/30',
+    input: 'text-fuchsia-100 focus:border-fuchsia-500 focus:shadow-[0_0_10px_rgba(217,70,239,0.3)]',
+    solidButton: 'bg-fuchsia-600 hover:bg-fuchsia-500 shadow-fuchsia-500/30',
+    spinner: 'border-fuchsia-500 border-b-cyan-400',
+    ping: 'bg-fuchsia-400',
+    pingCore: 'bg-fuchsia-500',
+    buttonVariant: 'pink'
+  }
+});
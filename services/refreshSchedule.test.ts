@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCHEDULE, RefreshSchedule, describeSchedule, getLatestCheckpoint, getNextCheckpoint, isValidTimeZone, parseTimeList } from "./refreshSchedule";
+
+const schedule = (overrides: Partial<RefreshSchedule>): RefreshSchedule => ({ ...DEFAULT_SCHEDULE, ...overrides });
+const at = (iso: string) => Date.parse(iso);
+
+describe('parseTimeList', () => {
+  it('pads, sorts and de-duplicates valid times', () => {
+    expect(parseTimeList('17:30, 5:00，05:00 9:15')).toEqual(['05:00', '09:15', '17:30']);
+  });
+
+  it('drops invalid entries', () => {
+    expect(parseTimeList('24:00, 7:60, noon, 23:59')).toEqual(['23:59']);
+  });
+});
+
+describe('checkpoints', () => {
+  const twiceDaily = schedule({ times: ['05:00', '17:00'], timeZone: 'UTC' });
+
+  it('finds the surrounding checkpoints of a times schedule', () => {
+    const now = at('2026-03-10T12:00:00Z');
+    expect(getLatestCheckpoint(twiceDaily, now)).toBe(at('2026-03-10T05:00:00Z'));
+    expect(getNextCheckpoint(twiceDaily, now)).toBe(at('2026-03-10T17:00:00Z'));
+  });
+
+  it('crosses midnight in both directions', () => {
+    expect(getLatestCheckpoint(twiceDaily, at('2026-03-10T01:00:00Z'))).toBe(at('2026-03-09T17:00:00Z'));
+    expect(getNextCheckpoint(twiceDaily, at('2026-03-10T20:00:00Z'))).toBe(at('2026-03-11T05:00:00Z'));
+  });
+
+  it('counts a checkpoint as passed at its exact instant', () => {
+    const now = at('2026-03-10T17:00:00Z');
+    expect(getLatestCheckpoint(twiceDaily, now)).toBe(now);
+    expect(getNextCheckpoint(twiceDaily, now)).toBe(at('2026-03-11T05:00:00Z'));
+  });
+
+  it('steps interval schedules from local midnight', () => {
+    const everySix = schedule({ mode: 'interval', intervalHours: 6, timeZone: 'UTC' });
+    const now = at('2026-03-10T13:30:00Z');
+    expect(getLatestCheckpoint(everySix, now)).toBe(at('2026-03-10T12:00:00Z'));
+    expect(getNextCheckpoint(everySix, now)).toBe(at('2026-03-10T18:00:00Z'));
+  });
+
+  it('evaluates times in the chosen zone', () => {
+    const shanghai = schedule({ times: ['08:00'], timeZone: 'Asia/Shanghai' });
+    expect(getNextCheckpoint(shanghai, at('2026-03-10T01:00:00Z'))).toBe(at('2026-03-11T00:00:00Z'));
+  });
+
+  it('keeps wall-clock times across a DST change', () => {
+    // US clocks go forward on 2026-03-08
+    const newYork = schedule({ times: ['09:00'], timeZone: 'America/New_York' });
+    expect(getLatestCheckpoint(newYork, at('2026-03-08T12:00:00Z'))).toBe(at('2026-03-07T14:00:00Z'));
+    expect(getNextCheckpoint(newYork, at('2026-03-08T12:00:00Z'))).toBe(at('2026-03-08T13:00:00Z'));
+  });
+});
+
+describe('schedule settings', () => {
+  it('validates IANA zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+
+  it('describes the schedule', () => {
+    expect(describeSchedule(schedule({ times: ['17:00', '5:00'], timeZone: 'UTC' }))).toBe('05:00 / 17:00 (UTC)');
+    expect(describeSchedule(schedule({ mode: 'interval', intervalHours: 4 }))).toBe('每 4 小时 (本地时区)');
+  });
+});
@@ -0,0 +1,130 @@
+import { REFRESH_SCHEDULE_RECORD, readRecord, writeRecord } from "./storage";
+
+// Refresh schedule: the checkpoints at which cached scans expire and the countdown
+// (and optional auto-scan) fires. Either a list of wall-clock times or "every N hours"
+// from midnight, evaluated in a chosen IANA time zone.
+
+export interface RefreshSchedule {
+  mode: 'times' | 'interval';
+  times: string[];       // "HH:MM", used in 'times' mode
+  intervalHours: number; // Used in 'interval' mode
+  timeZone: string;      // IANA zone; '' = browser local time
+  autoScan: boolean;     // Re-scan the active tab when a checkpoint passes while the app is open
+  background: boolean;   // Service worker refresh + notifications (see backgroundRefresh)
+}
+
+export const DEFAULT_SCHEDULE: RefreshSchedule = {
+  mode: 'times',
+  times: ['05:00', '17:00'],
+  intervalHours: 12,
+  timeZone: '',
+  autoScan: false,
+  background: false
+};
+
+const MINUTE_MS = 60 * 1000;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export const localTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (zone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const resolveTimeZone = (schedule: RefreshSchedule): string =>
+  schedule.timeZone && isValidTimeZone(schedule.timeZone) ? schedule.timeZone : localTimeZone();
+
+// "5:00, 17:30" -> ["05:00", "17:30"]; invalid entries dropped, sorted and de-duplicated
+export const parseTimeList = (text: string): string[] => {
+  const times = text.split(/[,，\s]+/).flatMap(part => {
+    const match = part.trim().match(TIME_PATTERN);
+    return match ? [`${match[1].padStart(2, '0')}:${match[2]}`] : [];
+  });
+  return Array.from(new Set(times)).sort();
+};
+
+// Minutes after midnight at which a checkpoint falls
+const checkpointMinutes = (schedule: RefreshSchedule): number[] => {
+  if (schedule.mode === 'interval') {
+    const step = Math.max(1, Math.min(24, Math.round(schedule.intervalHours))) * 60;
+    const minutes: number[] = [];
+    for (let m = 0; m < 24 * 60; m += step) minutes.push(m);
+    return minutes;
+  }
+  const minutes = parseTimeList(schedule.times.join(',')).map(time => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+  });
+  return minutes.length > 0 ? minutes : [5 * 60, 17 * 60];
+};
+
+// Wall-clock fields of an instant in the given zone
+const zonedParts = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric'
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+const zoneOffset = (instant: number, timeZone: string): number => {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Instant of a wall-clock time in the zone; re-checked once to settle DST transitions
+const zonedTimeToInstant = (year: number, month: number, day: number, minutes: number, timeZone: string): number => {
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+  const guess = wall - zoneOffset(wall, timeZone);
+  return wall - zoneOffset(guess, timeZone);
+};
+
+// Checkpoints from yesterday through tomorrow, oldest first
+const nearbyCheckpoints = (schedule: RefreshSchedule, now: number): number[] => {
+  const timeZone = resolveTimeZone(schedule);
+  const today = zonedParts(now, timeZone);
+  const minutes = checkpointMinutes(schedule);
+  const instants: number[] = [];
+  for (const dayOffset of [-1, 0, 1]) {
+    for (const m of minutes) {
+      instants.push(zonedTimeToInstant(today.year, today.month, today.day + dayOffset, m, timeZone));
+    }
+  }
+  return instants.sort((a, b) => a - b);
+};
+
+// Most recent checkpoint at or before `now`; caches older than this are stale
+export const getLatestCheckpoint = (schedule: RefreshSchedule, now: number = Date.now()): number => {
+  const past = nearbyCheckpoints(schedule, now).filter(t => t <= now);
+  return past[past.length - 1];
+};
+
+export const getNextCheckpoint = (schedule: RefreshSchedule, now: number = Date.now()): number => {
+  return nearbyCheckpoints(schedule, now).find(t => t > now) ?? now + MINUTE_MS;
+};
+
+export const describeSchedule = (schedule: RefreshSchedule): string => {
+  const zone = schedule.timeZone || '本地时区';
+  const when = schedule.mode === 'interval'
+    ? `每 ${schedule.intervalHours} 小时`
+    : parseTimeList(schedule.times.join(',')).join(' / ');
+  return `${when} (${zone})`;
+};
+
+export const loadRefreshSchedule = (): RefreshSchedule => ({
+  ...DEFAULT_SCHEDULE,
+  ...readRecord<Partial<RefreshSchedule>>(REFRESH_SCHEDULE_RECORD, {})
+});
+
+export const saveRefreshSchedule = (schedule: RefreshSchedule) => {
+  writeRecord(REFRESH_SCHEDULE_RECORD, schedule);
+};
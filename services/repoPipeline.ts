@@ -0,0 +1,186 @@
+import { Repo, RepoCandidate } from "../types";
+import { fetchRepoDetails, fetchRepoDetailsBatch } from "./githubService";
+import { REPO_CANDIDATE_FIELDS, REPO_DESCRIPTION_FIELDS, STRUCTURED_ROOT_KEY, describeFields, toJsonSchema } from "./repoSchema";
+import { emitScanLog, emitScanProgress } from "./scanEvents";
+import { formatParseReport, normalizeRepoName, parseStructuredArray, validateRepoShape } from "./structuredParser";
+
+// Shared scan pipeline: every provider produces raw candidates via its own prompt,
+// the parsing / cleaning / GitHub validation below is identical for all of them.
+
+export const TARGET_COUNT = 10;
+
+// Output contract appended to every provider prompt
+export const REPO_JSON_SPEC = `
+    Format the output as a STRICT JSON ARRAY.
+
+    JSON Fields required:
+    ${describeFields(REPO_CANDIDATE_FIELDS)}
+
+    JSON SYNTAX RULES (CRITICAL):
+    1. Output ONLY the JSON array. No Markdown, no code blocks, no intro text.
+    2. Use double quotes for all keys and string values.
+    3. **DO NOT** use double quotes (") INSIDE descriptions. Use single quotes (') instead.
+    4. NO trailing commas.
+
+    JSON Structure Example:
+    [
+      {
+        "name": "owner/repo",
+        "url": "https://github.com/owner/repo",
+        "description": "这是一个非常强大的开源工具，它提供了自动化部署、实时监控以及智能分析功能。该项目采用Rust编写，性能极高，特别适合处理大规模并发请求，是当前DevOps领域的热门选择。",
+        "starsTrend": "+100 stars/day",
+        "tags": ["AI", "Tool"]
+      }
+    ]
+`;
+
+// Output contract for providers running in native JSON mode (response_format json_object):
+// the reply must be an object, so the array is wrapped under STRUCTURED_ROOT_KEY.
+export const REPO_JSON_OBJECT_SPEC = `
+    Respond with a JSON object of the form { "${STRUCTURED_ROOT_KEY}": [ ... ] }.
+    Each array item must match this JSON schema:
+    ${JSON.stringify(toJsonSchema(REPO_CANDIDATE_FIELDS))}
+`;
+
+// Prompt for the optional "describe only" pass: repos already come from GitHub,
+// the model just writes the Chinese summary.
+export const buildDescribePrompt = (repos: Repo[]): string => `
+    For each GitHub repository below, write a Simplified Chinese (简体中文) summary detailing core features, usage scenarios & technical advantages, strictly between 80 and 100 characters.
+    Base the summary on the repository name, language, topics and original description only. Do not invent features.
+
+    Repositories:
+    ${repos.map(r => `- ${r.name} | ${r.language || 'N/A'} | ${r.tags.join(', ')} | ${r.description || 'N/A'}`).join('\n    ')}
+
+    Output ONLY a STRICT JSON ARRAY (or { "${STRUCTURED_ROOT_KEY}": [...] } in JSON mode) of objects with these fields:
+    ${describeFields(REPO_DESCRIPTION_FIELDS)}
+    No Markdown, no code blocks, no trailing commas, no double quotes inside descriptions.
+`;
+
+// Merge model-written descriptions back into the repos they belong to
+export const applyDescriptions = (repos: Repo[], described: any[]): Repo[] => {
+  const byName = new Map<string, string>();
+  for (const item of described) {
+    if (item && typeof item.name === 'string' && typeof item.description === 'string') {
+      byName.set(item.name.toLowerCase(), item.description);
+    }
+  }
+  return repos.map(repo => {
+    const description = byName.get(repo.name.toLowerCase());
+    return description ? { ...repo, description } : repo;
+  });
+};
+
+// Pull the repo objects out of a raw model response (tolerant, see structuredParser)
+export const parseRepoCandidates = (raw: string, sourceLabel: string = 'AI'): RepoCandidate[] => {
+  const { items, report } = parseStructuredArray(raw, validateRepoShape);
+
+  if (report.repaired || report.dropped.length > 0) {
+    emitScanLog(formatParseReport(sourceLabel, report));
+  }
+
+  if (items.length === 0) {
+    console.warn("No recoverable items in response:", raw);
+    if (report.total === 0) {
+      throw new Error("数据流解析失败 (DATA_CORRUPTION): API响应未包含有效的数据格式");
+    }
+    throw new Error(`数据流解析失败 (DATA_CORRUPTION): ${report.total} 项均无法恢复`);
+  }
+
+  return items;
+};
+
+export interface CandidateValidator {
+  push: (candidate: RepoCandidate) => void; // Queue a raw candidate; duplicates and bad names are ignored
+  finish: () => Promise<Repo[]>;  // Wait for the queue to drain; throws when nothing survived
+  stop: () => void;               // Abandon the queue (generation failed); no further onRepo calls
+}
+
+// Validate candidates against the GitHub API and merge real metadata, progressively:
+// candidates are checked as they are pushed (e.g. while a model is still streaming) and every
+// confirmed repo is reported through `onRepo` straight away. Whatever queued up while a check
+// was running is resolved in one GraphQL query with a token, otherwise one REST call each.
+// Aborting `signal` stops the REST loop between calls and cancels the request in flight.
+export const createCandidateValidator = (sourceLabel: string, signal?: AbortSignal, onRepo?: (repo: Repo) => void): CandidateValidator => {
+  const validRepos: Repo[] = [];
+  const seen = new Set<string>();
+  let pending: { repo: RepoCandidate; name: string }[] = [];
+  let total = 0;
+  let done = 0;
+  let stopped = false;
+  let failure: unknown = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const isFull = () => stopped || validRepos.length >= TARGET_COUNT;
+
+  const drain = async () => {
+    while (pending.length > 0 && !isFull()) {
+      const queue = pending;
+      pending = [];
+      console.log(`[${sourceLabel}] Validating ${queue.length} candidates...`);
+
+      const batch = await fetchRepoDetailsBatch(queue.map(c => c.name), signal);
+      if (batch) {
+        console.log(`[${sourceLabel}] Resolved ${queue.length} candidates via GraphQL batch.`);
+      }
+
+      for (const { repo, name } of queue) {
+        // Stop if we have enough
+        if (isFull()) break;
+        signal?.throwIfAborted();
+
+        const details = batch ? batch[name] : await fetchRepoDetails(name, signal);
+        if (stopped) break;
+        done++;
+        emitScanProgress({ source: sourceLabel, phase: 'validate', done, total });
+
+        if (details) {
+          const valid = {
+            ...repo,
+            name, // Use the cleaned name
+            tags: Array.isArray(repo.tags) ? repo.tags : [],
+            ...details // Merge real GitHub data
+          } as Repo;
+          validRepos.push(valid);
+          onRepo?.(valid);
+        } else {
+          console.warn(`[${sourceLabel}] Filtering out dead repo: ${name}`);
+          emitScanLog(`[验证] 过滤无效仓库: ${name}`);
+        }
+      }
+    }
+  };
+
+  return {
+    push: (candidate) => {
+      if (!candidate || typeof candidate.name !== 'string') return;
+      const cleanName = normalizeRepoName(candidate.name);
+      if (!cleanName || seen.has(cleanName.toLowerCase())) return;
+      seen.add(cleanName.toLowerCase());
+      pending.push({ repo: candidate, name: cleanName });
+      total++;
+      // Chained, so one check runs at a time; synchronous pushes share the next drain
+      running = running
+        .then(() => (failure ? undefined : drain()))
+        .catch(e => { failure = failure ?? e; });
+    },
+    finish: async () => {
+      await running;
+      if (failure) throw failure;
+      if (validRepos.length === 0) {
+        throw new Error(`${sourceLabel} 生成的项目均无法验证有效性 (所有候选项均无法访问)。`);
+      }
+      return validRepos;
+    },
+    stop: () => {
+      stopped = true;
+      pending = [];
+    }
+  };
+};
+
+// One-shot validation of a complete candidate list
+export const validateCandidates = async (candidates: RepoCandidate[], sourceLabel: string, signal?: AbortSignal, onRepo?: (repo: Repo) => void): Promise<Repo[]> => {
+  const validator = createCandidateValidator(sourceLabel, signal, onRepo);
+  candidates.forEach(validator.push);
+  return validator.finish();
+};
@@ -0,0 +1,51 @@
+// Single definition of the fields a provider must return for each repo.
+// Prose prompts, OpenAI-style JSON schema and Gemini responseSchema are all derived from it.
+
+export interface SchemaField {
+  name: string;
+  type: 'string' | 'string[]';
+  description: string;
+}
+
+export const REPO_CANDIDATE_FIELDS: SchemaField[] = [
+  { name: 'name', type: 'string', description: '"owner/repo" (e.g. "facebook/react")' },
+  { name: 'url', type: 'string', description: '"https://github.com/owner/repo"' },
+  { name: 'description', type: 'string', description: 'Simplified Chinese summary (简体中文), detailing core features, usage scenarios & technical advantages, strictly between 80 and 100 characters.' },
+  { name: 'starsTrend', type: 'string', description: 'Estimated trend (e.g. "+200 stars/day")' },
+  { name: 'tags', type: 'string[]', description: 'Array of strings.' }
+];
+
+// Describe-only pass (repos sourced from GitHub Search)
+export const REPO_DESCRIPTION_FIELDS: SchemaField[] = [
+  { name: 'name', type: 'string', description: '"owner/repo", exactly as given' },
+  { name: 'description', type: 'string', description: 'Simplified Chinese summary (简体中文), strictly between 80 and 100 characters.' }
+];
+
+// Wrapper key used when a provider must return an object (e.g. response_format json_object)
+export const STRUCTURED_ROOT_KEY = 'repos';
+
+// "- name: ..." bullet list for prose prompts
+export const describeFields = (fields: SchemaField[]): string => {
+  return fields.map(f => `- ${f.name}: ${f.description}`).join('\n    ');
+};
+
+// Standard JSON Schema for one item
+export const toJsonSchema = (fields: SchemaField[]) => ({
+  type: 'object',
+  properties: Object.fromEntries(fields.map(f => [
+    f.name,
+    f.type === 'string[]'
+      ? { type: 'array', items: { type: 'string' }, description: f.description }
+      : { type: 'string', description: f.description }
+  ])),
+  required: fields.map(f => f.name)
+});
+
+// JSON Schema for the wrapped { "repos": [...] } object
+export const toWrappedJsonSchema = (fields: SchemaField[]) => ({
+  type: 'object',
+  properties: {
+    [STRUCTURED_ROOT_KEY]: { type: 'array', items: toJsonSchema(fields) }
+  },
+  required: [STRUCTURED_ROOT_KEY]
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { Repo } from "../types";
+import { EMPTY_RESULT_QUERY, ResultQuery, applyResultQuery, isQueryActive, listLanguages, parseTrendPerDay } from "./resultFilter";
+import { makeRepo } from "./testFixtures";
+
+const NOW = Date.parse('2026-03-10T00:00:00Z');
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 3600 * 1000).toISOString();
+
+const query = (overrides: Partial<ResultQuery>): ResultQuery => ({ ...EMPTY_RESULT_QUERY, ...overrides });
+const names = (repos: Repo[]) => repos.map(r => r.name);
+
+const repos = [
+  makeRepo('a/rust-cli', { language: 'Rust', description: 'Fast terminal tool', tags: ['cli'], starsCount: 500, lastPushedAt: daysAgo(1), starsTrend: '+100 stars/day' }),
+  makeRepo('b/web-kit', { language: 'TypeScript', description: 'UI kit', tags: ['web'], starsCount: 2000, lastPushedAt: daysAgo(40), starsTrend: '+1.4k stars/week' }),
+  makeRepo('c/old-lib', { language: 'Rust', isArchived: true, starsCount: 90, lastPushedAt: daysAgo(400) }),
+  makeRepo('d/mystery', { isRateLimited: true, starsTrend: '???' })
+];
+
+describe('parseTrendPerDay', () => {
+  it('normalises model trends to stars per day', () => {
+    expect(parseTrendPerDay('+500 stars/day')).toBe(500);
+    expect(parseTrendPerDay('+1.2k stars/day')).toBe(1200);
+    expect(parseTrendPerDay('+1,400 stars/week')).toBe(200);
+    expect(parseTrendPerDay('+300 星/月')).toBe(10);
+    expect(parseTrendPerDay('-50 stars/day')).toBe(-50);
+    expect(parseTrendPerDay('-1,400 stars/week')).toBe(-200);
+    expect(parseTrendPerDay('rising fast')).toBeUndefined();
+  });
+});
+
+describe('applyResultQuery', () => {
+  it('returns everything in order for the empty query', () => {
+    expect(names(applyResultQuery(repos, EMPTY_RESULT_QUERY, NOW))).toEqual(names(repos));
+    expect(isQueryActive(EMPTY_RESULT_QUERY)).toBe(false);
+  });
+
+  it('requires every search term across name, description and tags', () => {
+    expect(names(applyResultQuery(repos, query({ search: 'TERMINAL cli' }), NOW))).toEqual(['a/rust-cli']);
+    expect(names(applyResultQuery(repos, query({ search: 'terminal web' }), NOW))).toEqual([]);
+  });
+
+  it('filters by language, tier and flag', () => {
+    expect(names(applyResultQuery(repos, query({ language: 'Rust' }), NOW))).toEqual(['a/rust-cli', 'c/old-lib']);
+    expect(names(applyResultQuery(repos, query({ tier: 'archived' }), NOW))).toEqual(['c/old-lib']);
+    expect(names(applyResultQuery(repos, query({ flag: 'active' }), NOW))).toEqual(['a/rust-cli', 'b/web-kit', 'd/mystery']);
+    expect(names(applyResultQuery(repos, query({ flag: 'rateLimited' }), NOW))).toEqual(['d/mystery']);
+  });
+
+  it('sorts descending with missing values last', () => {
+    expect(names(applyResultQuery(repos, query({ sort: 'stars' }), NOW))).toEqual(['b/web-kit', 'a/rust-cli', 'c/old-lib', 'd/mystery']);
+    expect(names(applyResultQuery(repos, query({ sort: 'pushed' }), NOW))).toEqual(['a/rust-cli', 'b/web-kit', 'c/old-lib', 'd/mystery']);
+  });
+
+  it('prefers measured velocity over the model trend', () => {
+    const measured = [...repos.slice(0, 2), makeRepo('e/measured', { starsVelocity: 150, starsTrend: '+1 stars/day' })];
+    expect(names(applyResultQuery(measured, query({ sort: 'trend' }), NOW))).toEqual(['b/web-kit', 'e/measured', 'a/rust-cli']);
+  });
+
+  it('ranks shrinking repos below growing ones', () => {
+    const mixed = [makeRepo('f/fading', { starsTrend: '-50 stars/day' }), makeRepo('g/steady', { starsTrend: '+5 stars/day' })];
+    expect(names(applyResultQuery(mixed, query({ sort: 'trend' }), NOW))).toEqual(['g/steady', 'f/fading']);
+  });
+
+  it('does not reorder the input array', () => {
+    const input = [...repos];
+    applyResultQuery(input, query({ sort: 'stars' }), NOW);
+    expect(names(input)).toEqual(names(repos));
+  });
+});
+
+describe('listLanguages', () => {
+  it('lists distinct languages alphabetically', () => {
+    expect(listLanguages(repos)).toEqual(['Rust', 'TypeScript']);
+  });
+});
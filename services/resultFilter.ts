@@ -0,0 +1,95 @@
+import { Repo } from "../types";
+import { ACTIVITY_TIERS, ActivityTier, getActivityTier } from "./activity";
+
+// Search / filter / sort over the result grid, shared by the scanner and vault views.
+
+export type ResultFlag = 'archived' | 'rateLimited' | 'active';
+export type ResultSort = 'default' | 'stars' | 'pushed' | 'trend';
+
+// null = no constraint
+export interface ResultQuery {
+  search: string;
+  language: string | null;
+  tier: ActivityTier | null;
+  flag: ResultFlag | null;
+  sort: ResultSort;
+}
+
+export const EMPTY_RESULT_QUERY: ResultQuery = { search: '', language: null, tier: null, flag: null, sort: 'default' };
+
+export const RESULT_FLAGS: { value: ResultFlag; label: string }[] = [
+  { value: 'active', label: '仅未归档' },
+  { value: 'archived', label: '仅已归档' },
+  { value: 'rateLimited', label: '未验证 (限流)' }
+];
+
+export const RESULT_SORTS: { value: ResultSort; label: string }[] = [
+  { value: 'default', label: '默认排序' },
+  { value: 'stars', label: '★ 星标数' },
+  { value: 'pushed', label: '最近推送' },
+  { value: 'trend', label: '▲ 增速' }
+];
+
+// Tiers in display order (same priority as the RepoCard status bar)
+export const TIER_OPTIONS = (Object.keys(ACTIVITY_TIERS) as ActivityTier[]).map(value => ({
+  value,
+  label: ACTIVITY_TIERS[value].label
+}));
+
+export const isQueryActive = (query: ResultQuery) =>
+  query.search.trim() !== '' || query.language !== null || query.tier !== null || query.flag !== null;
+
+export const listLanguages = (repos: Repo[]): string[] =>
+  Array.from(new Set(repos.map(r => r.language).filter((l): l is string => !!l))).sort((a, b) => a.localeCompare(b));
+
+// "+1.2k stars/day" / "-300 stars/week" -> stars per day; unparseable -> undefined
+export const parseTrendPerDay = (trend: string): number | undefined => {
+  const match = trend.replace(/,/g, '').match(/(-?[\d.]+)\s*(k)?/i);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]) * (match[2] ? 1000 : 1);
+  if (isNaN(value)) return undefined;
+  if (/week|周/i.test(trend)) return value / 7;
+  if (/month|月/i.test(trend)) return value / 30;
+  return value;
+};
+
+// Measured velocity wins; the model's estimate is the fallback
+const trendOf = (repo: Repo) => repo.starsVelocity ?? parseTrendPerDay(repo.starsTrend);
+
+const matchesFlag = (repo: Repo, flag: ResultFlag) => {
+  if (flag === 'archived') return !!repo.isArchived;
+  if (flag === 'rateLimited') return !!repo.isRateLimited;
+  return !repo.isArchived;
+};
+
+const matchesSearch = (repo: Repo, terms: string[]) => {
+  const haystack = [repo.name, repo.description, ...repo.tags].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// Missing values always sort last
+const compareDesc = (a: number | undefined, b: number | undefined) => (b ?? -Infinity) - (a ?? -Infinity);
+
+export const applyResultQuery = <T extends Repo>(repos: T[], query: ResultQuery, now: number = Date.now()): T[] => {
+  const terms = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const filtered = repos.filter(repo =>
+    (terms.length === 0 || matchesSearch(repo, terms)) &&
+    (query.language === null || repo.language === query.language) &&
+    (query.tier === null || getActivityTier(repo, now) === query.tier) &&
+    (query.flag === null || matchesFlag(repo, query.flag))
+  );
+
+  switch (query.sort) {
+    case 'stars':
+      return filtered.sort((a, b) => compareDesc(a.starsCount, b.starsCount));
+    case 'pushed':
+      return filtered.sort((a, b) => compareDesc(
+        a.lastPushedAt ? Date.parse(a.lastPushedAt) : undefined,
+        b.lastPushedAt ? Date.parse(b.lastPushedAt) : undefined
+      ));
+    case 'trend':
+      return filtered.sort((a, b) => compareDesc(trendOf(a), trendOf(b)));
+    default:
+      return filtered;
+  }
+};
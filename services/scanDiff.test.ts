@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { diffRepoSets, summarizePicks } from "./scanDiff";
+import { makeRepo } from "./testFixtures";
+
+describe('diffRepoSets', () => {
+  it('splits two lists by case-insensitive name with rank changes', () => {
+    const diff = diffRepoSets(
+      [makeRepo('a/one'), makeRepo('b/two'), makeRepo('c/three')],
+      [makeRepo('C/Three'), makeRepo('d/four'), makeRepo('a/one')]
+    );
+    expect(diff.onlyA.map(e => e.repo.name)).toEqual(['b/two']);
+    expect(diff.onlyB).toEqual([{ repo: expect.objectContaining({ name: 'd/four' }), rank: 2 }]);
+    expect(diff.both.map(e => [e.name, e.rankDelta])).toEqual([['a/one', -2], ['c/three', 2]]);
+  });
+
+  it('ranks duplicates by their first position', () => {
+    const diff = diffRepoSets([makeRepo('a/one'), makeRepo('A/one')], [makeRepo('a/one')]);
+    expect(diff.both).toHaveLength(1);
+    expect(diff.both[0].a.rank).toBe(1);
+    expect(diff.onlyA).toEqual([]);
+  });
+});
+
+describe('summarizePicks', () => {
+  it('counts dead and unverified picks and takes the median stars', () => {
+    const quality = summarizePicks([
+      makeRepo('a/one', { starsCount: 10, lastPushedAt: '2026-01-01' }),
+      makeRepo('b/two', { starsCount: 300, lastPushedAt: '2026-01-01', isArchived: true }),
+      makeRepo('c/three', { starsCount: 50, isRateLimited: true }),
+      makeRepo('d/four')
+    ], 1);
+    expect(quality).toEqual({ count: 4, archived: 1, unverified: 2, medianStars: 50, overlap: 0.25 });
+  });
+
+  it('handles an empty side', () => {
+    expect(summarizePicks([], 0)).toEqual({ count: 0, archived: 0, unverified: 0, medianStars: null, overlap: 0 });
+  });
+});
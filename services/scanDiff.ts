@@ -0,0 +1,79 @@
+import { Repo } from "../types";
+
+// Compare two ranked result sets by normalized repo name.
+
+export interface RankedEntry {
+  repo: Repo;
+  rank: number; // 1-based position in its list
+}
+
+export interface SharedEntry {
+  name: string;
+  a: RankedEntry;
+  b: RankedEntry;
+  rankDelta: number; // Places gained going from A to B (positive = ranked higher in B)
+}
+
+export interface RepoSetDiff {
+  onlyA: RankedEntry[];
+  onlyB: RankedEntry[];
+  both: SharedEntry[];
+}
+
+export const repoKey = (name: string) => name.trim().toLowerCase();
+
+const indexRepos = (repos: Repo[]): Map<string, RankedEntry> => {
+  const map = new Map<string, RankedEntry>();
+  repos.forEach((repo, i) => {
+    const key = repoKey(repo.name);
+    if (!map.has(key)) map.set(key, { repo, rank: i + 1 });
+  });
+  return map;
+};
+
+export const diffRepoSets = (a: Repo[], b: Repo[]): RepoSetDiff => {
+  const indexA = indexRepos(a);
+  const indexB = indexRepos(b);
+
+  const onlyA: RankedEntry[] = [];
+  const both: SharedEntry[] = [];
+
+  indexA.forEach((entryA, key) => {
+    const entryB = indexB.get(key);
+    if (entryB) {
+      both.push({ name: entryA.repo.name, a: entryA, b: entryB, rankDelta: entryA.rank - entryB.rank });
+    } else {
+      onlyA.push(entryA);
+    }
+  });
+
+  const onlyB = Array.from(indexB.entries())
+    .filter(([key]) => !indexA.has(key))
+    .map(([, entry]) => entry);
+
+  return { onlyA, onlyB, both };
+};
+
+// Signals for judging how trustworthy one side's picks are
+export interface PickQuality {
+  count: number;
+  archived: number;     // Dead picks
+  unverified: number;   // No GitHub metadata (rate limited or lookup failed)
+  medianStars: number | null;
+  overlap: number;      // Share of picks the other side also found (0-1)
+}
+
+export const summarizePicks = (repos: Repo[], shared: number): PickQuality => {
+  const stars = repos
+    .map(r => r.starsCount)
+    .filter((n): n is number => typeof n === 'number')
+    .sort((a, b) => a - b);
+
+  return {
+    count: repos.length,
+    archived: repos.filter(r => r.isArchived).length,
+    unverified: repos.filter(r => r.isRateLimited || !r.lastPushedAt).length,
+    medianStars: stars.length > 0 ? stars[Math.floor(stars.length / 2)] : null,
+    overlap: repos.length > 0 ? shared / repos.length : 0
+  };
+};
@@ -0,0 +1,71 @@
+// Lightweight log channel from the service layer to the SystemLog terminal.
+// Services emit human readable lines; App subscribes once and forwards them to addLog.
+
+type ScanLogListener = (message: string) => void;
+const listeners = new Set<ScanLogListener>();
+
+export const subscribeScanLog = (listener: ScanLogListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const emitScanLog = (message: string) => {
+  listeners.forEach(listener => listener(message));
+};
+
+// --- Progress (live status line, replaced in place instead of appended) ---
+
+export type ScanPhase = 'generate' | 'describe' | 'validate';
+
+export interface ScanProgress {
+  source: string;  // Provider label, so parallel ensemble members stay distinguishable
+  phase: ScanPhase;
+  done?: number;   // Counted phases only (validation)
+  total?: number;
+}
+
+const PHASE_LABELS: Record<ScanPhase, string> = {
+  generate: '模型生成',
+  describe: '描述生成',
+  validate: '验证'
+};
+
+export const formatScanProgress = (progress: ScanProgress): string => {
+  const count = progress.total !== undefined ? ` ${progress.done ?? 0}/${progress.total}` : '';
+  return `${progress.source} · ${PHASE_LABELS[progress.phase]}${count}`;
+};
+
+type ScanProgressListener = (progress: ScanProgress) => void;
+const progressListeners = new Set<ScanProgressListener>();
+
+export const subscribeScanProgress = (listener: ScanProgressListener): (() => void) => {
+  progressListeners.add(listener);
+  return () => { progressListeners.delete(listener); };
+};
+
+export const emitScanProgress = (progress: ScanProgress) => {
+  progressListeners.forEach(listener => listener(progress));
+};
+
+// --- Cancellation / timeouts ---
+
+// Abort `signal`'s work after `seconds` with a readable reason; the caller's own abort still passes through.
+// `seconds <= 0` means no limit. Call `clear` once the guarded work has settled.
+export const withTimeout = (signal: AbortSignal | undefined, seconds: number, label: string): { signal: AbortSignal; clear: () => void } => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort);
+
+  const timer = seconds > 0
+    ? setTimeout(() => controller.abort(new Error(`${label} 响应超时 (${seconds}秒)。可在 KEY 设置中调整超时时间。`)), seconds * 1000)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+};
@@ -0,0 +1,75 @@
+import { Repo, ScanResult } from "../types";
+import { SCANS_STORE, withStore } from "./db";
+import { diffRepoSets } from "./scanDiff";
+import { sameFrame, toTimeFrame } from "./timeFrames";
+
+// Every completed scan is kept as a snapshot in IndexedDB so past checkpoints
+// can be browsed, reopened and compared.
+
+const MAX_SNAPSHOTS = 300; // Oldest snapshots are pruned beyond this
+
+export interface ScanChange {
+  entered: Repo[];  // In this scan but not the previous one of the same time frame
+  dropped: Repo[];  // In the previous scan but gone from this one
+  previous: ScanResult | null;
+}
+
+const byNewest = (a: ScanResult, b: ScanResult) => Date.parse(b.timestamp) - Date.parse(a.timestamp);
+
+export const listScanSnapshots = async (): Promise<ScanResult[]> => {
+  try {
+    const all = await withStore<ScanResult[]>(SCANS_STORE, 'readonly', store => store.getAll());
+    // Older snapshots stored the window as a '3d'-style string
+    return all.map(scan => ({ ...scan, timeFrame: toTimeFrame(scan.timeFrame) })).sort(byNewest);
+  } catch (e) {
+    console.error('Scan history load error', e);
+    return [];
+  }
+};
+
+const pruneSnapshots = async () => {
+  const all = await listScanSnapshots();
+  const stale = all.slice(MAX_SNAPSHOTS);
+  for (const scan of stale) {
+    if (scan.id !== undefined) {
+      await withStore(SCANS_STORE, 'readwrite', store => store.delete(scan.id!));
+    }
+  }
+};
+
+// Returns the stored snapshot (with its id), or null if IndexedDB is unavailable
+export const saveScanSnapshot = async (scan: ScanResult): Promise<ScanResult | null> => {
+  try {
+    const record: ScanResult = { ...scan };
+    delete record.id; // Let the store assign one
+    const id = await withStore(SCANS_STORE, 'readwrite', store => store.add(record));
+    await pruneSnapshots();
+    return { ...record, id: id as number };
+  } catch (e) {
+    console.error('Scan history save error', e);
+    return null;
+  }
+};
+
+// Latest earlier snapshot of the same time frame and hunt profile (history must be sorted newest first)
+export const findPreviousSnapshot = (scan: ScanResult, history: ScanResult[]): ScanResult | null => {
+  const time = Date.parse(scan.timestamp);
+  return history.find(other =>
+    other.id !== scan.id &&
+    sameFrame(other.timeFrame, scan.timeFrame) &&
+    other.profileId === scan.profileId &&
+    Date.parse(other.timestamp) < time
+  ) || null;
+};
+
+export const getScanChange = (scan: ScanResult, history: ScanResult[]): ScanChange => {
+  const previous = findPreviousSnapshot(scan, history);
+  if (!previous) return { entered: [], dropped: [], previous: null };
+
+  const diff = diffRepoSets(scan.repos, previous.repos);
+  return {
+    entered: diff.onlyA.map(e => e.repo),
+    dropped: diff.onlyB.map(e => e.repo),
+    previous
+  };
+};
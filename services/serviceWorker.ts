@@ -0,0 +1,72 @@
+import { BACKGROUND_DONE_MESSAGE, BACKGROUND_SYNC_TAG, RefreshNotice } from "./backgroundMessages";
+
+// Page side of the service worker: registration, periodic sync and notifications.
+
+const SW_URL = '/sw.js';
+// Browsers treat this as a lower bound and throttle further; the worker checks the schedule itself
+const SYNC_MIN_INTERVAL_MS = 60 * 60 * 1000;
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+// Only production builds emit sw.js; elsewhere this quietly resolves to null
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!registration) {
+    registration = ('serviceWorker' in navigator)
+      ? navigator.serviceWorker.register(SW_URL, { type: 'module' }).catch(e => {
+          console.warn('Service worker unavailable', e);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return registration;
+};
+
+// Periodic Background Sync is Chromium-only and needs an installed / engaged site
+export const enableBackgroundSync = async (): Promise<boolean> => {
+  const reg = await registerServiceWorker();
+  const periodicSync = (reg as any)?.periodicSync;
+  if (!periodicSync) return false;
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state !== 'granted') return false;
+    await periodicSync.register(BACKGROUND_SYNC_TAG, { minInterval: SYNC_MIN_INTERVAL_MS });
+    return true;
+  } catch (e) {
+    console.warn('Periodic background sync registration failed', e);
+    return false;
+  }
+};
+
+export const disableBackgroundSync = async () => {
+  const reg = await registerServiceWorker();
+  await (reg as any)?.periodicSync?.unregister(BACKGROUND_SYNC_TAG).catch(() => undefined);
+};
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'default') await Notification.requestPermission();
+  return Notification.permission === 'granted';
+};
+
+// Null entries (nothing worth telling) are skipped so callers can pass builder results straight in
+export const showNotices = async (candidates: (RefreshNotice | null)[]) => {
+  const notices = candidates.filter((n): n is RefreshNotice => !!n);
+  if (notices.length === 0 || !('Notification' in window) || Notification.permission !== 'granted') return;
+  const reg = await registerServiceWorker();
+  for (const notice of notices) {
+    if (reg) {
+      await reg.showNotification(notice.title, { body: notice.body, tag: notice.tag });
+    } else {
+      new Notification(notice.title, { body: notice.body, tag: notice.tag });
+    }
+  }
+};
+
+export const subscribeBackgroundRefresh = (listener: () => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handler = (event: MessageEvent) => {
+    if (event.data?.type === BACKGROUND_DONE_MESSAGE) listener();
+  };
+  navigator.serviceWorker.addEventListener('message', handler);
+  return () => navigator.serviceWorker.removeEventListener('message', handler);
+};
@@ -0,0 +1,96 @@
+import { Repo, StarSnapshot, TimeFrame } from "../types";
+import { frameSpanDays } from "./timeFrames";
+import { STAR_SNAPSHOTS_RECORD, readRecord, writeRecord } from "./storage";
+
+// Local star snapshots: every scan records the real starsCount of each repo, so
+// velocity can be measured instead of trusting the model's starsTrend guess.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_AGE_MS = 90 * DAY_MS;        // Keep ~3 months of history
+const MIN_SPAN_MS = 1000 * 60 * 60;    // Need at least 1h between points to measure
+const MERGE_WINDOW_MS = 1000 * 60 * 30; // Rescans within 30 min overwrite the last point
+
+type SnapshotStore = Record<string, StarSnapshot[]>;
+
+const storeKey = (name: string) => name.toLowerCase();
+
+const loadStore = (): SnapshotStore => readRecord<SnapshotStore>(STAR_SNAPSHOTS_RECORD, {});
+
+const saveStore = (store: SnapshotStore) => {
+  writeRecord(STAR_SNAPSHOTS_RECORD, store);
+};
+
+export const getStarSnapshots = (name: string): StarSnapshot[] => {
+  return loadStore()[storeKey(name)] || [];
+};
+
+// Snapshots inside the last N days (sparkline source)
+export const getRecentSnapshots = (name: string, days: number): StarSnapshot[] => {
+  const since = Date.now() - days * DAY_MS;
+  return getStarSnapshots(name).filter(s => s.t >= since);
+};
+
+export const recordStarSnapshots = (repos: Repo[]) => {
+  const store = loadStore();
+  const now = Date.now();
+
+  for (const repo of repos) {
+    if (repo.starsCount === undefined) continue;
+    const key = storeKey(repo.name);
+    const series = (store[key] || []).filter(s => now - s.t < MAX_AGE_MS);
+    const last = series[series.length - 1];
+
+    if (last && now - last.t < MERGE_WINDOW_MS) {
+      series[series.length - 1] = { t: now, stars: repo.starsCount };
+    } else {
+      series.push({ t: now, stars: repo.starsCount });
+    }
+    store[key] = series;
+  }
+
+  // Drop repos whose history aged out completely
+  for (const key of Object.keys(store)) {
+    store[key] = store[key].filter(s => now - s.t < MAX_AGE_MS);
+    if (store[key].length === 0) delete store[key];
+  }
+
+  saveStore(store);
+};
+
+// Stars/day between the snapshot closest to the window start and the latest snapshot
+const velocityFromSeries = (series: StarSnapshot[], days: number): number | undefined => {
+  if (series.length < 2) return undefined;
+
+  const latest = series[series.length - 1];
+  const windowStart = latest.t - days * DAY_MS;
+
+  let baseline = series[0];
+  for (const point of series) {
+    if (Math.abs(point.t - windowStart) < Math.abs(baseline.t - windowStart)) {
+      baseline = point;
+    }
+  }
+
+  const span = latest.t - baseline.t;
+  if (span < MIN_SPAN_MS) return undefined;
+
+  return (latest.stars - baseline.stars) / (span / DAY_MS);
+};
+
+export const measureVelocity = (name: string, timeFrame: TimeFrame): number | undefined => {
+  return velocityFromSeries(getStarSnapshots(name), frameSpanDays(timeFrame));
+};
+
+export const applyMeasuredVelocity = <T extends Repo>(repos: T[], timeFrame: TimeFrame): T[] => {
+  const store = loadStore();
+  const days = frameSpanDays(timeFrame);
+  return repos.map(repo => ({
+    ...repo,
+    starsVelocity: velocityFromSeries(store[storeKey(repo.name)] || [], days)
+  }));
+};
+
+export const formatVelocity = (velocity: number): string => {
+  const rounded = Math.abs(velocity) >= 10 ? Math.round(velocity).toString() : velocity.toFixed(1);
+  return `${velocity >= 0 ? '+' : ''}${rounded} stars/day`;
+};
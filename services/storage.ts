@@ -0,0 +1,270 @@
+import { Repo, VaultEntry } from "../types";
+import { RECORDS_STORE, openDatabase, requestToPromise, transactionDone } from "./db";
+
+// Versioned record storage backed by IndexedDB.
+// Every record is hydrated into memory at startup so reads stay synchronous;
+// writes update memory immediately and persist in the background.
+// Each record kind carries a schema version and is upgraded step by step on
+// load, so a format change migrates user data instead of discarding it.
+
+interface StoredRecord {
+  v: number;
+  data: any;
+}
+
+interface RecordSchema {
+  version: number;
+  // upgrades[n] turns data stored at version n into version n + 1
+  upgrades?: Record<number, (data: any) => any>;
+}
+
+// --- Record keys ---
+
+export const VAULT_RECORD = 'vault';
+export const STAR_SNAPSHOTS_RECORD = 'starSnapshots';
+export const KEY_VAULT_RECORD = 'keyVault';
+export const HUNT_PROFILES_RECORD = 'huntProfiles';
+export const PINNED_FRAMES_RECORD = 'pinnedFrames';
+export const REFRESH_SCHEDULE_RECORD = 'refreshSchedule';
+export const BACKGROUND_RUN_RECORD = 'backgroundRun';
+// Hunt profiles get their own cache slot per window
+export const cacheRecordKey = (frame: string, profileId?: string) =>
+  profileId ? `cache:${profileId}:${frame}` : `cache:${frame}`;
+const settingRecordKey = (name: string) => `setting:${name}`;
+
+// --- Schemas ---
+
+const VAULT_SCHEMA: RecordSchema = {
+  version: 3,
+  upgrades: {
+    // v1: bare "owner/repo" strings from the first vault release
+    1: (names: string[]): Repo[] => names
+      .filter(name => typeof name === 'string' && name.includes('/'))
+      .map(name => ({
+        name,
+        url: `https://github.com/${name}`,
+        description: '',
+        starsTrend: '',
+        tags: []
+      })),
+    // v2: plain Repo objects; add triage status and personal tags
+    2: (repos: Repo[]): VaultEntry[] => repos.map(repo => ({
+      ...repo,
+      personalTags: [],
+      status: 'evaluate'
+    }))
+  }
+};
+
+const PLAIN_SCHEMA: RecordSchema = { version: 1 };
+
+const schemaFor = (key: string): RecordSchema => {
+  if (key === VAULT_RECORD) return VAULT_SCHEMA;
+  return PLAIN_SCHEMA;
+};
+
+// Bring a stored record up to the current schema; null when it cannot be read
+const upgradeRecord = (key: string, record: StoredRecord): { data: any; upgraded: boolean } | null => {
+  const schema = schemaFor(key);
+  let { v, data } = record;
+
+  if (v > schema.version) {
+    // Written by a newer build: use as-is and never overwrite it
+    return { data, upgraded: false };
+  }
+
+  try {
+    while (v < schema.version) {
+      const step = schema.upgrades?.[v];
+      if (!step) throw new Error(`missing upgrade v${v} -> v${v + 1}`);
+      data = step(data);
+      v++;
+    }
+  } catch (e) {
+    console.error(`Storage: cannot upgrade "${key}", leaving it untouched`, e);
+    return null;
+  }
+
+  return { data, upgraded: v !== record.v };
+};
+
+// --- In-memory mirror ---
+
+const memory = new Map<string, any>();
+const pendingWrites = new Set<Promise<void>>();
+// Records stored by a newer build: readable, but this build must not write its older format over them
+const newerRecords = new Set<string>();
+// Keys written while reloadStorage re-reads the database; they win over the re-read values
+let reloadWrites: Set<string> | null = null;
+
+const persist = (key: string, data: any) => {
+  if (newerRecords.has(key)) {
+    console.warn(`Storage: "${key}" was written by a newer version, keeping this change in memory only`);
+    return;
+  }
+  const write = persistNow(key, data);
+  pendingWrites.add(write);
+  write.finally(() => pendingWrites.delete(write));
+};
+
+const persistNow = async (key: string, data: any) => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(RECORDS_STORE, 'readwrite');
+    if (data === undefined) {
+      tx.objectStore(RECORDS_STORE).delete(key);
+    } else {
+      const record: StoredRecord = { v: schemaFor(key).version, data };
+      tx.objectStore(RECORDS_STORE).put(record, key);
+    }
+    await transactionDone(tx);
+  } catch (e) {
+    console.error(`Storage: failed to persist "${key}"`, e);
+  }
+};
+
+export const readRecord = <T>(key: string, fallback: T): T => {
+  return memory.has(key) ? memory.get(key) as T : fallback;
+};
+
+export const writeRecord = <T>(key: string, data: T) => {
+  memory.set(key, data);
+  reloadWrites?.add(key);
+  persist(key, data);
+};
+
+export const removeRecord = (key: string) => {
+  memory.delete(key);
+  reloadWrites?.add(key);
+  persist(key, undefined);
+};
+
+export const getSetting = (name: string): string => readRecord(settingRecordKey(name), '');
+
+export const setSetting = (name: string, value: string) => {
+  writeRecord(settingRecordKey(name), value);
+};
+
+export const removeSetting = (name: string) => {
+  removeRecord(settingRecordKey(name));
+};
+
+// --- Legacy localStorage import ---
+
+const LEGACY_PREFIX = 'cybergit_';
+const LEGACY_CACHE_PREFIX = 'cybergit_cache_';
+const LEGACY_VAULT_KEY = 'cybergit_fav_vault';
+const LEGACY_SNAPSHOT_KEY = 'cybergit_star_snapshots';
+
+// Map a pre-IndexedDB localStorage entry onto a record key + versioned record
+const fromLegacy = (legacyKey: string, raw: string): { key: string; record: StoredRecord } => {
+  if (legacyKey === LEGACY_VAULT_KEY) {
+    const data = JSON.parse(raw);
+    const isNameList = Array.isArray(data) && data.length > 0 && typeof data[0] === 'string';
+    return { key: VAULT_RECORD, record: { v: isNameList ? 1 : 2, data } };
+  }
+  if (legacyKey === LEGACY_SNAPSHOT_KEY) {
+    return { key: STAR_SNAPSHOTS_RECORD, record: { v: 1, data: JSON.parse(raw) } };
+  }
+  if (legacyKey.startsWith(LEGACY_CACHE_PREFIX)) {
+    return { key: cacheRecordKey(legacyKey.slice(LEGACY_CACHE_PREFIX.length)), record: { v: 1, data: JSON.parse(raw) } };
+  }
+  // Keys, tokens and other plain string settings
+  return { key: settingRecordKey(legacyKey), record: { v: 1, data: raw } };
+};
+
+// One-time move of localStorage data; entries are only removed once safely written
+const importLegacyLocalStorage = async (db: IDBDatabase) => {
+  if (typeof localStorage === 'undefined') return; // Service worker: the page does the import
+  const legacyKeys = Object.keys(localStorage).filter(k => k.startsWith(LEGACY_PREFIX));
+  if (legacyKeys.length === 0) return;
+
+  const tx = db.transaction(RECORDS_STORE, 'readwrite');
+  const store = tx.objectStore(RECORDS_STORE);
+  const existingKeys = new Set((await requestToPromise(store.getAllKeys())).map(String));
+  const imported: string[] = [];
+
+  for (const legacyKey of legacyKeys) {
+    try {
+      const { key, record } = fromLegacy(legacyKey, localStorage.getItem(legacyKey) || '');
+      // Newer IndexedDB data wins over a stale localStorage copy
+      if (!existingKeys.has(key)) store.put(record, key);
+      imported.push(legacyKey);
+    } catch (e) {
+      console.error(`Storage: unreadable legacy entry "${legacyKey}", kept in localStorage`, e);
+    }
+  }
+
+  await transactionDone(tx);
+  imported.forEach(k => localStorage.removeItem(k));
+};
+
+// --- Startup ---
+
+let ready: Promise<void> | null = null;
+
+// Read every record into `target`; false when IndexedDB is unavailable
+const hydrate = async (target: Map<string, any>): Promise<boolean> => {
+  try {
+    const db = await openDatabase();
+    await importLegacyLocalStorage(db);
+
+    const store = db.transaction(RECORDS_STORE, 'readonly').objectStore(RECORDS_STORE);
+    const [keys, records] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll())
+    ]);
+
+    keys.forEach((rawKey, i) => {
+      const key = String(rawKey);
+      const result = upgradeRecord(key, records[i]);
+      if (!result) return;
+      if (records[i].v > schemaFor(key).version) newerRecords.add(key);
+      target.set(key, result.data);
+      if (result.upgraded) persist(key, result.data);
+    });
+    return true;
+  } catch (e) {
+    // Private mode or blocked storage: keep working from memory for this session
+    console.error('Storage: IndexedDB unavailable, changes will not be saved', e);
+    return false;
+  }
+};
+
+// Must resolve before the app renders
+export const initStorage = (): Promise<void> => {
+  if (!ready) ready = hydrate(memory).then(() => undefined);
+  return ready;
+};
+
+// Re-read everything from IndexedDB, e.g. after the service worker wrote records.
+// Readers keep seeing the current mirror until the fresh copy is swapped in whole.
+export const reloadStorage = async (): Promise<void> => {
+  await flushStorage();
+  const written = new Set<string>();
+  reloadWrites = written;
+  const fresh = new Map<string, any>();
+  let loaded: boolean;
+  try {
+    loaded = await hydrate(fresh);
+  } finally {
+    reloadWrites = null;
+  }
+  // IndexedDB unavailable: keep the current mirror rather than an empty one
+  if (!loaded) return;
+
+  // Writes made during the re-read are newer than what it returned (and already persisting)
+  written.forEach(key => {
+    if (memory.has(key)) fresh.set(key, memory.get(key));
+    else fresh.delete(key);
+  });
+  memory.clear();
+  fresh.forEach((value, key) => memory.set(key, value));
+};
+
+// Wait for background writes; a service worker must not finish its event before this
+export const flushStorage = async (): Promise<void> => {
+  while (pendingWrites.size > 0) {
+    await Promise.all(Array.from(pendingWrites));
+  }
+};
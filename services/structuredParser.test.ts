@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { createStreamingArrayReader, normalizeRepoName, parseStructuredArray, validateRepoShape } from "./structuredParser";
+
+const parse = (raw: string) => parseStructuredArray(raw, validateRepoShape);
+const names = (raw: string) => parse(raw).items.map(item => item.name);
+
+describe('parseStructuredArray', () => {
+  it('reads a bare array without repairs', () => {
+    const result = parse('[{"name":"a/one","tags":["x"]},{"name":"b/two"}]');
+    expect(result.items.map(item => item.name)).toEqual(['a/one', 'b/two']);
+    expect(result.report).toEqual({ total: 2, recovered: 2, repaired: false, dropped: [] });
+  });
+
+  it('reads the JSON-mode wrapper and code-fenced output', () => {
+    expect(names('{"repos":[{"name":"a/one"}]}')).toEqual(['a/one']);
+    expect(names('```json\n[{"name":"a/one"}]\n```')).toEqual(['a/one']);
+  });
+
+  it('treats a lone repo object as a one-item list instead of reading its tags', () => {
+    const result = parse('{"name":"a/one","description":"d","tags":["cli","rust"]}');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({ name: 'a/one', tags: ['cli', 'rust'] });
+  });
+
+  it('recovers nothing from a tags-only object', () => {
+    const result = parse('{"tags":["cli","rust"]}');
+    expect(result.items).toEqual([]);
+    expect(result.report.recovered).toBe(0);
+  });
+
+  it('keeps the complete objects of a truncated array and reports the cut-off one', () => {
+    const result = parse('[{"name":"a/one","description":"ok"},{"name":"b/two","description":"ok"},{"name":"c/th');
+    expect(result.items.map(item => item.name)).toEqual(['a/one', 'b/two']);
+    expect(result.report.repaired).toBe(true);
+    expect(result.report.total).toBe(3);
+    expect(result.report.dropped).toHaveLength(1);
+    expect(result.report.dropped[0].index).toBe(2);
+  });
+
+  it('closes an object cut off after its name', () => {
+    const result = parse('[{"name":"a/one"},{"name":"b/two","description":"half a sent');
+    expect(result.items.map(item => item.name)).toEqual(['a/one', 'b/two']);
+  });
+
+  it('repairs unescaped quotes, smart quotes and trailing commas', () => {
+    expect(names('[{"name":"a/one","description":"the "fast" one"},]')).toEqual(['a/one']);
+    expect(names('[{“name”: “a/one”}]')).toEqual(['a/one']);
+  });
+
+  it('drops broken and invalid items with a reason', () => {
+    const result = parse('[{"name":"a/one"},{"name": oops},{"name":"not a repo"}]');
+    expect(result.items.map(item => item.name)).toEqual(['a/one']);
+    expect(result.report.dropped.map(d => d.index)).toEqual([1, 2]);
+  });
+});
+
+describe('validateRepoShape', () => {
+  it('normalises names and fills missing fields', () => {
+    const { value } = validateRepoShape({ name: 'https://github.com/Owner/Repo.git', tags: 'a, b，c' });
+    expect(value).toMatchObject({
+      name: 'Owner/Repo',
+      url: 'https://github.com/Owner/Repo',
+      description: '',
+      starsTrend: '',
+      tags: ['a', 'b', 'c']
+    });
+  });
+
+  it('falls back to the url when the name is missing', () => {
+    expect(validateRepoShape({ url: 'https://github.com/a/one' }).value?.name).toBe('a/one');
+  });
+
+  it('rejects non-objects and unusable names', () => {
+    expect(validateRepoShape('a/one').value).toBeUndefined();
+    expect(validateRepoShape({ description: 'no name' }).value).toBeUndefined();
+  });
+});
+
+describe('normalizeRepoName', () => {
+  it('strips the GitHub prefix, .git suffix and trailing slash', () => {
+    expect(normalizeRepoName('https://github.com/a/one/')).toBe('a/one');
+    expect(normalizeRepoName('a/one.git')).toBe('a/one');
+    expect(normalizeRepoName('just-a-name')).toBeNull();
+  });
+});
+
+describe('createStreamingArrayReader', () => {
+  it('emits each completed object once as the text grows', () => {
+    const read = createStreamingArrayReader(validateRepoShape);
+    expect(read('[{"name":"a/one"},{"name":"b/')).toEqual([expect.objectContaining({ name: 'a/one' })]);
+    expect(read('[{"name":"a/one"},{"name":"b/two"}')).toEqual([expect.objectContaining({ name: 'b/two' })]);
+    expect(read('[{"name":"a/one"},{"name":"b/two"}]')).toEqual([]);
+  });
+});
@@ -0,0 +1,302 @@
+import { RepoCandidate } from "../types";
+import { STRUCTURED_ROOT_KEY } from "./repoSchema";
+
+// Tolerant parser for the JSON arrays returned by every provider.
+// Instead of failing the whole scan on one bad character, it repairs common
+// model defects and recovers objects one by one, reporting what was dropped.
+
+export interface DroppedItem {
+  index: number;   // Position in the model output (0-based)
+  reason: string;
+}
+
+export interface ParseReport {
+  total: number;      // Objects found in the output (incl. broken ones)
+  recovered: number;  // Objects that passed parsing + shape validation
+  repaired: boolean;  // Output was not valid JSON as-is
+  dropped: DroppedItem[];
+}
+
+export interface ParseResult<T> {
+  items: T[];
+  report: ParseReport;
+}
+
+export type ItemValidator<T> = (item: any) => { value?: T; reason?: string };
+
+const SMART_QUOTES = new Set(['“', '”', '„', '＂']);
+const VALID_ESCAPES = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't', 'u']);
+
+const nextNonSpace = (text: string, from: number): string | undefined => {
+  for (let i = from; i < text.length; i++) {
+    if (!/\s/.test(text[i])) return text[i];
+  }
+  return undefined;
+};
+
+// Normalise string delimiters:
+// - smart quotes used as delimiters become plain quotes
+// - unescaped quotes inside a value get escaped (a quote only closes a string
+//   when followed by , : } ] or the end of input)
+// - raw newlines / invalid escapes inside strings are escaped
+export const repairJsonStrings = (text: string): string => repairStrings(text).text;
+
+// `cutInString`: the text ended inside a string, so its last value is incomplete
+const repairStrings = (text: string): { text: string; cutInString: boolean } => {
+  let out = '';
+  let inString = false;
+  let openedBySmart = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (!inString) {
+      if (ch === '"' || SMART_QUOTES.has(ch)) {
+        out += '"';
+        inString = true;
+        openedBySmart = ch !== '"';
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === '\\') {
+      const next = text[i + 1];
+      if (next !== undefined && VALID_ESCAPES.has(next)) {
+        out += ch + next;
+        i++;
+      } else {
+        out += '\\\\';
+      }
+      continue;
+    }
+
+    if (ch === '\n' || ch === '\r') {
+      out += ch === '\n' ? '\\n' : '';
+      continue;
+    }
+
+    const isDelimiterCandidate = ch === '"' || (openedBySmart && SMART_QUOTES.has(ch));
+    if (isDelimiterCandidate) {
+      const next = nextNonSpace(text, i + 1);
+      if (next === undefined || ',:}]'.includes(next)) {
+        out += '"';
+        inString = false;
+      } else {
+        out += ch === '"' ? '\\"' : ch;
+      }
+      continue;
+    }
+
+    out += ch;
+  }
+
+  // Truncated inside a string: close it so the chunk repair below has a chance
+  if (inString) out += '"';
+  return { text: out, cutInString: inString };
+};
+
+const stripTrailingCommas = (text: string) => text.replace(/,(\s*[\]}])/g, '$1');
+
+const stripCodeFences = (raw: string) => raw.replace(/```(?:json)?/gi, '').trim();
+
+// Split the top-level array into per-object chunks (text must already be string-repaired)
+const splitObjects = (text: string): { chunks: string[]; truncatedTail: string | null } => {
+  const chunks: string[] = [];
+  const start = text.indexOf('[');
+  if (start === -1) return { chunks, truncatedTail: null };
+
+  let depth = 0;
+  let inString = false;
+  let chunkStart = -1;
+
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) chunkStart = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0 && chunkStart !== -1) {
+        chunks.push(text.substring(chunkStart, i + 1));
+        chunkStart = -1;
+      }
+      if (depth < 0) depth = 0;
+    } else if (ch === ']' && depth === 0) {
+      return { chunks, truncatedTail: null };
+    }
+  }
+
+  // Output ended mid-object (token limit hit)
+  return { chunks, truncatedTail: chunkStart !== -1 ? text.substring(chunkStart) : null };
+};
+
+const tryParse = (text: string): any => {
+  try {
+    return JSON.parse(stripTrailingCommas(text));
+  } catch {
+    return undefined;
+  }
+};
+
+// Best effort close of a cut-off object: drop the dangling key/value, then close brackets.
+// A string value cut mid-way (e.g. half a repo name) is dropped rather than trusted.
+const repairTruncated = (tail: string, cutInString: boolean): any => {
+  const complete = cutInString ? tail.replace(/([{,])\s*"[^"]*"\s*:\s*"[^"]*"$/, '$1') : tail;
+  const trimmed = complete.replace(/,\s*"[^"]*"?\s*:?\s*("[^"]*)?$/, '').replace(/,\s*$/, '');
+  for (const closer of ['}', '"}', ']}', '"]}']) {
+    const parsed = tryParse(trimmed + closer);
+    if (parsed && typeof parsed === 'object') return parsed;
+  }
+  return undefined;
+};
+
+// Accept a bare array, the JSON-mode wrapper { "repos": [...] }, or a lone item object.
+// Any other array field is a last resort: a lone repo's `tags` must not be read as the list.
+const pickArray = (value: any): any[] | null => {
+  if (Array.isArray(value)) return value;
+  if (!value || typeof value !== 'object') return null;
+  if (Array.isArray(value[STRUCTURED_ROOT_KEY])) return value[STRUCTURED_ROOT_KEY];
+  if (typeof value.name === 'string') return [value];
+  const arr = Object.values(value).find(v => Array.isArray(v));
+  return (arr as any[]) || null;
+};
+
+export const parseStructuredArray = <T>(raw: string, validate: ItemValidator<T>): ParseResult<T> => {
+  const cleaned = stripCodeFences(raw);
+  const dropped: DroppedItem[] = [];
+  let rawItems: (any | undefined)[] = [];
+  let repaired = false;
+  let truncatedIndex = -1;
+
+  // Fast path: the output is valid JSON already
+  let strict: any[] | null = null;
+  try {
+    strict = pickArray(JSON.parse(cleaned));
+  } catch {
+    const first = cleaned.indexOf('[');
+    const last = cleaned.lastIndexOf(']');
+    if (first !== -1 && last > first) {
+      strict = pickArray(tryParse(cleaned.substring(first, last + 1)));
+    }
+  }
+
+  if (strict) {
+    rawItems = strict;
+  } else {
+    // Slow path: repair strings, then recover objects individually
+    repaired = true;
+    const { text, cutInString } = repairStrings(cleaned);
+    const { chunks, truncatedTail } = splitObjects(text);
+    rawItems = chunks.map(tryParse);
+    if (truncatedTail) {
+      truncatedIndex = rawItems.length;
+      rawItems.push(repairTruncated(truncatedTail, cutInString));
+    }
+  }
+
+  const items: T[] = [];
+  rawItems.forEach((item, index) => {
+    if (item === undefined) {
+      dropped.push({ index, reason: index === truncatedIndex ? '输出被截断，无法修复' : 'JSON 语法错误' });
+      return;
+    }
+    const result = validate(item);
+    if (result.value !== undefined) {
+      items.push(result.value);
+    } else {
+      dropped.push({ index, reason: result.reason || '结构不符' });
+    }
+  });
+
+  return {
+    items,
+    report: { total: rawItems.length, recovered: items.length, repaired, dropped }
+  };
+};
+
+// Incremental variant for streamed output: call with the text received so far and get back
+// the items completed since the previous call. Broken items are skipped silently here; the
+// full parse at the end of the stream reports them.
+export const createStreamingArrayReader = <T>(validate: ItemValidator<T>): ((textSoFar: string) => T[]) => {
+  let emitted = 0;
+  return (textSoFar) => {
+    const { chunks } = splitObjects(repairJsonStrings(stripCodeFences(textSoFar)));
+    const fresh = chunks.slice(emitted);
+    emitted = Math.max(emitted, chunks.length);
+    return fresh.flatMap(chunk => {
+      const parsed = tryParse(chunk);
+      const value = parsed === undefined ? undefined : validate(parsed).value;
+      return value === undefined ? [] : [value];
+    });
+  };
+};
+
+// One-line summary for the SystemLog terminal
+export const formatParseReport = (label: string, report: ParseReport): string => {
+  let line = `[解析] ${label}: 恢复 ${report.recovered}/${report.total} 项`;
+  if (report.repaired) line += ' (已自动修复格式缺陷)';
+  if (report.dropped.length > 0) {
+    const reasons = report.dropped.slice(0, 5).map(d => `#${d.index + 1} ${d.reason}`).join('; ');
+    line += `，丢弃 ${report.dropped.length} 项: ${reasons}${report.dropped.length > 5 ? ' ...' : ''}`;
+  }
+  return line;
+};
+
+// --- Repo shape ---
+
+// CLEANING: Remove URL prefix and .git suffix to get clean "owner/repo"
+export const normalizeRepoName = (name: string): string | null => {
+  let cleanName = name
+    .replace(/^https?:\/\/github\.com\//, '')
+    .replace(/\.git$/, '')
+    .trim();
+
+  // Remove trailing slash if present
+  if (cleanName.endsWith('/')) {
+    cleanName = cleanName.slice(0, -1);
+  }
+
+  return /^[\w.-]+\/[\w.-]+$/.test(cleanName) ? cleanName : null; // Must be owner/repo
+};
+
+// Coerce a model-produced object into the Repo candidate shape; only a usable name is mandatory
+export const validateRepoShape: ItemValidator<RepoCandidate> = (item) => {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { reason: '非对象条目' };
+  }
+
+  const rawName = typeof item.name === 'string' ? item.name
+    : typeof item.url === 'string' ? item.url
+    : null;
+  if (!rawName) return { reason: '缺少 name 字段' };
+
+  const name = normalizeRepoName(rawName);
+  if (!name) return { reason: `name 非 owner/repo 格式 (${String(rawName).slice(0, 40)})` };
+
+  const tags = Array.isArray(item.tags)
+    ? item.tags.filter((t: any) => typeof t === 'string')
+    : typeof item.tags === 'string' ? item.tags.split(/[,，]/).map((t: string) => t.trim()).filter(Boolean)
+    : [];
+
+  return {
+    value: {
+      ...item,
+      name,
+      url: typeof item.url === 'string' && item.url.startsWith('http') ? item.url : `https://github.com/${name}`,
+      description: typeof item.description === 'string' ? item.description : '',
+      starsTrend: typeof item.starsTrend === 'string' ? item.starsTrend : String(item.starsTrend ?? ''),
+      tags
+    }
+  };
+};
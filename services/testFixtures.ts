@@ -0,0 +1,19 @@
+import { Repo, VaultEntry } from "../types";
+
+// Minimal valid records for unit tests; pass only the fields a test cares about.
+
+export const makeRepo = (name: string, extra: Partial<Repo> = {}): Repo => ({
+  name,
+  url: `https://github.com/${name}`,
+  description: '',
+  starsTrend: '',
+  tags: [],
+  ...extra
+});
+
+export const makeVaultEntry = (name: string, extra: Partial<VaultEntry> = {}): VaultEntry => ({
+  ...makeRepo(name),
+  personalTags: [],
+  status: 'evaluate',
+  ...extra
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { TimeFrame } from "../types";
+import {
+  describeFrameForPrompt, frameBounds, frameDateQualifier, frameKey, frameLabel, frameSpanDays,
+  rollingDays, rollingHours, sameFrame, toTimeFrame, uniqueFrames
+} from "./timeFrames";
+
+const range = (from: string, to: string): TimeFrame => ({ kind: 'range', from, to });
+const NOW = Date.parse('2026-03-10T12:34:56Z');
+
+describe('frameKey', () => {
+  it('keeps the historic day keys for whole-day windows', () => {
+    expect(frameKey(rollingDays(3))).toBe('3d');
+    expect(frameKey(rollingHours(24))).toBe('1d');
+    expect(frameKey(rollingHours(6))).toBe('6h');
+    expect(frameKey(range('2026-01-01', '2026-01-31'))).toBe('2026-01-01..2026-01-31');
+  });
+
+  it('compares frames by key', () => {
+    expect(sameFrame(rollingHours(72), rollingDays(3))).toBe(true);
+    expect(sameFrame(rollingDays(3), undefined)).toBe(false);
+  });
+});
+
+describe('toTimeFrame', () => {
+  it('reads legacy strings and round-trips every key', () => {
+    expect(toTimeFrame('7d')).toEqual(rollingDays(7));
+    expect(toTimeFrame('12h')).toEqual(rollingHours(12));
+    [rollingDays(14), rollingHours(6), range('2025-12-01', '2026-01-15')].forEach(frame => {
+      expect(toTimeFrame(frameKey(frame))).toEqual(frame);
+    });
+  });
+
+  it('rejects malformed, empty and reversed windows', () => {
+    expect(toTimeFrame('0d')).toBeUndefined();
+    expect(toTimeFrame('3w')).toBeUndefined();
+    expect(toTimeFrame({ kind: 'rolling', hours: -1 })).toBeUndefined();
+    expect(toTimeFrame(range('2026-02-01', '2026-01-01'))).toBeUndefined();
+    expect(toTimeFrame({ kind: 'range', from: '2026-1-1', to: '2026-01-02' })).toBeUndefined();
+    expect(toTimeFrame(null)).toBeUndefined();
+  });
+});
+
+describe('frame math', () => {
+  it('bounds a range by whole UTC days', () => {
+    expect(frameBounds(range('2026-01-01', '2026-01-02'))).toEqual({
+      since: Date.parse('2026-01-01T00:00:00Z'),
+      until: Date.parse('2026-01-02T23:59:59Z')
+    });
+    expect(frameSpanDays(range('2026-01-01', '2026-01-07'))).toBe(7);
+  });
+
+  it('ends rolling windows now', () => {
+    expect(frameBounds(rollingHours(6), NOW)).toEqual({ since: NOW - 6 * 3600 * 1000, until: NOW });
+    expect(frameSpanDays(rollingHours(6))).toBe(1);
+  });
+
+  it('only uses sub-day precision in the search qualifier when needed', () => {
+    expect(frameDateQualifier(rollingDays(3), NOW)).toBe('created:>=2026-03-07');
+    expect(frameDateQualifier(rollingHours(6), NOW)).toBe('created:>=2026-03-10T06:34:56Z');
+    expect(frameDateQualifier(range('2026-01-01', '2026-01-31'))).toBe('created:2026-01-01..2026-01-31');
+    expect(frameDateQualifier(rollingDays(3), NOW, 'pushed')).toBe('pushed:>=2026-03-07');
+  });
+});
+
+describe('frame wording', () => {
+  it('labels windows for tabs', () => {
+    expect(frameLabel(rollingHours(24))).toBe('近24小时');
+    expect(frameLabel(rollingDays(7))).toBe('近7日');
+    expect(frameLabel(range('2026-01-01', '2026-01-31'))).toBe('01-01 ~ 01-31');
+    expect(frameLabel(range('2025-12-01', '2026-01-31'))).toBe('2025-12-01 ~ 2026-01-31');
+  });
+
+  it('describes windows for prompts', () => {
+    expect(describeFrameForPrompt(rollingHours(24))).toBe('in the last 24 hours');
+    expect(describeFrameForPrompt(rollingDays(7))).toBe('in the last 7 days');
+    expect(describeFrameForPrompt(range('2026-01-01', '2026-01-31'))).toBe('between 2026-01-01 and 2026-01-31');
+  });
+});
+
+describe('uniqueFrames', () => {
+  it('keeps the first occurrence of equal frames', () => {
+    expect(uniqueFrames([rollingDays(3), rollingDays(7), rollingHours(72)])).toEqual([rollingDays(3), rollingDays(7)]);
+  });
+});
@@ -0,0 +1,126 @@
+import { TimeFrame } from "../types";
+import { PINNED_FRAMES_RECORD, readRecord, writeRecord } from "./storage";
+
+// Scan windows: labels, prompt wording, GitHub date qualifiers, cache keys and the
+// user's pinned tabs all derive from the TimeFrame value instead of per-window tables.
+
+const HOUR_MS = 1000 * 3600;
+const DAY_MS = HOUR_MS * 24;
+
+export const rollingHours = (hours: number): TimeFrame => ({ kind: 'rolling', hours });
+export const rollingDays = (days: number): TimeFrame => rollingHours(days * 24);
+
+export const DEFAULT_FRAME = rollingDays(3);
+
+export const PRESET_FRAMES: TimeFrame[] = [
+  rollingHours(24),
+  rollingDays(3),
+  rollingDays(7),
+  rollingDays(14),
+  rollingDays(30),
+  rollingDays(90)
+];
+
+const DEFAULT_PINNED: TimeFrame[] = [rollingDays(3), rollingDays(7), rollingDays(14)];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Stable string id, used for cache keys and equality. Day multiples keep the
+// historic '3d' / '7d' / '14d' keys so existing caches stay valid.
+export const frameKey = (frame: TimeFrame): string => {
+  if (frame.kind === 'range') return `${frame.from}..${frame.to}`;
+  return frame.hours % 24 === 0 ? `${frame.hours / 24}d` : `${frame.hours}h`;
+};
+
+export const sameFrame = (a?: TimeFrame, b?: TimeFrame): boolean =>
+  !!a && !!b && frameKey(a) === frameKey(b);
+
+// Accepts current objects and legacy '3d'-style strings from older snapshots / profiles
+export const toTimeFrame = (value: unknown): TimeFrame | undefined => {
+  if (typeof value === 'string') {
+    const rolling = value.match(/^(\d+)([hd])$/);
+    if (rolling) {
+      const amount = Number(rolling[1]);
+      if (amount > 0) return rolling[2] === 'h' ? rollingHours(amount) : rollingDays(amount);
+    }
+    const range = value.match(/^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/);
+    if (range) return toTimeFrame({ kind: 'range', from: range[1], to: range[2] });
+    return undefined;
+  }
+  if (!value || typeof value !== 'object') return undefined;
+
+  const frame = value as any;
+  if (frame.kind === 'rolling' && Number.isFinite(frame.hours) && frame.hours > 0) {
+    return rollingHours(Math.round(frame.hours));
+  }
+  if (frame.kind === 'range' && DATE_PATTERN.test(frame.from) && DATE_PATTERN.test(frame.to) && frame.from <= frame.to) {
+    return { kind: 'range', from: frame.from, to: frame.to };
+  }
+  return undefined;
+};
+
+export const frameBounds = (frame: TimeFrame, now: number = Date.now()): { since: number; until: number } => {
+  if (frame.kind === 'range') {
+    return { since: Date.parse(`${frame.from}T00:00:00Z`), until: Date.parse(`${frame.to}T23:59:59Z`) };
+  }
+  return { since: now - frame.hours * HOUR_MS, until: now };
+};
+
+// Whole days covered by the window (at least one); drives velocity measurement
+export const frameSpanDays = (frame: TimeFrame): number => {
+  const { since, until } = frameBounds(frame);
+  return Math.max(1, Math.round((until - since) / DAY_MS));
+};
+
+const shortDate = (date: string) => date.slice(5);
+
+export const frameLabel = (frame?: TimeFrame): string => {
+  if (!frame) return '—';
+  if (frame.kind === 'range') {
+    const sameYear = frame.from.slice(0, 4) === frame.to.slice(0, 4);
+    return sameYear
+      ? `${shortDate(frame.from)} ~ ${shortDate(frame.to)}`
+      : `${frame.from} ~ ${frame.to}`;
+  }
+  if (frame.hours % 24 !== 0 || frame.hours === 24) return `近${frame.hours}小时`;
+  return `近${frame.hours / 24}日`;
+};
+
+// "in the last 3 days" / "between 2026-01-01 and 2026-01-31" for provider prompts
+export const describeFrameForPrompt = (frame: TimeFrame): string => {
+  if (frame.kind === 'range') return `between ${frame.from} and ${frame.to}`;
+  if (frame.hours <= 48) return `in the last ${frame.hours} hours`;
+  return `in the last ${frameSpanDays(frame)} days`;
+};
+
+// GitHub search `created:` / `pushed:` qualifier; sub-day precision only where the window needs it
+export const frameDateQualifier = (frame: TimeFrame, now: number = Date.now(), field: 'created' | 'pushed' = 'created'): string => {
+  if (frame.kind === 'range') return `${field}:${frame.from}..${frame.to}`;
+  const since = new Date(frameBounds(frame, now).since).toISOString();
+  return frame.hours % 24 === 0
+    ? `${field}:>=${since.slice(0, 10)}`
+    : `${field}:>=${since.slice(0, 19)}Z`;
+};
+
+// De-duplicate while keeping the first occurrence's position
+export const uniqueFrames = (frames: TimeFrame[]): TimeFrame[] => {
+  const seen = new Set<string>();
+  return frames.filter(frame => {
+    const key = frameKey(frame);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// --- Pinned tabs ---
+
+export const loadPinnedFrames = (): TimeFrame[] => {
+  const stored = readRecord<unknown[]>(PINNED_FRAMES_RECORD, []);
+  const frames = uniqueFrames(stored.map(toTimeFrame).filter((f): f is TimeFrame => !!f));
+  return frames.length > 0 ? frames : DEFAULT_PINNED;
+};
+
+export const savePinnedFrames = (frames: TimeFrame[]) => {
+  writeRecord(PINNED_FRAMES_RECORD, frames);
+};
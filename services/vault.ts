@@ -0,0 +1,50 @@
+import { Repo, TriageStatus, VaultEntry } from "../types";
+
+// Data Vault organisation: triage status, folders and personal tags.
+
+export const TRIAGE_STATUSES: { value: TriageStatus; label: string; className: string }[] = [
+  { value: 'evaluate', label: '待评估', className: 'border-yellow-600/50 text-yellow-400 bg-yellow-900/10' },
+  { value: 'adopted', label: '已采用', className: 'border-green-600/50 text-green-400 bg-green-900/10' },
+  { value: 'rejected', label: '已拒绝', className: 'border-red-700/50 text-red-400 bg-red-900/10' }
+];
+
+export const toVaultEntry = (repo: Repo, extra: Partial<VaultEntry> = {}): VaultEntry => ({
+  ...repo,
+  personalTags: [],
+  status: 'evaluate',
+  starsAtSave: repo.starsCount,
+  ...extra
+});
+
+// null = no constraint; folder '' = unfiled entries only
+export interface VaultFilter {
+  folder: string | null;
+  status: TriageStatus | null;
+  tag: string | null;
+  alertsOnly: boolean; // Entries flagged by the freshness monitor
+}
+
+export const EMPTY_VAULT_FILTER: VaultFilter = { folder: null, status: null, tag: null, alertsOnly: false };
+
+export const isFilterActive = (filter: VaultFilter) =>
+  filter.folder !== null || filter.status !== null || filter.tag !== null || filter.alertsOnly;
+
+export const filterVault = <T extends VaultEntry>(entries: T[], filter: VaultFilter): T[] => {
+  return entries.filter(entry =>
+    (filter.folder === null || (entry.folder || '') === filter.folder) &&
+    (filter.status === null || entry.status === filter.status) &&
+    (filter.tag === null || entry.personalTags.includes(filter.tag)) &&
+    (!filter.alertsOnly || (entry.alerts?.length || 0) > 0)
+  );
+};
+
+const sortedUnique = (values: string[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b, 'zh-CN'));
+
+export const listFolders = (entries: VaultEntry[]): string[] => sortedUnique(entries.map(e => e.folder || ''));
+
+export const listPersonalTags = (entries: VaultEntry[]): string[] => sortedUnique(entries.flatMap(e => e.personalTags));
+
+// "a, b，c" -> ["a", "b", "c"]
+export const parseTagInput = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,，]/).map(t => t.trim().replace(/^#/, '')).filter(Boolean)));
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { setGitHubToken } from "./githubService";
+import { refreshVaultEntries } from "./vaultMonitor";
+import { makeVaultEntry } from "./testFixtures";
+
+const NOW = Date.parse('2026-03-10T00:00:00Z');
+
+const entry = (name: string) => makeVaultEntry(name, { starsCount: 100, lastPushedAt: '2026-03-01T00:00:00Z' });
+
+const restRepo = { pushed_at: '2026-03-09T00:00:00Z', archived: false, stargazers_count: 120, language: 'Rust' };
+
+// Answers REST /repos/<name> with the status mapped to that name
+const stubRest = (statuses: Record<string, number | 'offline'>) => {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const name = new URL(url).pathname.replace('/repos/', '');
+    const status = statuses[name];
+    if (status === 'offline') throw new TypeError('Failed to fetch');
+    return new Response(status === 200 ? JSON.stringify(restRepo) : '{}', { status });
+  }));
+};
+
+describe('refreshVaultEntries', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setGitHubToken('');
+  });
+
+  it('only flags a repo as gone when GitHub answers 404', async () => {
+    stubRest({ 'a/deleted': 404, 'b/token': 401, 'c/down': 502, 'd/offline': 'offline', 'e/fine': 200 });
+    const result = await refreshVaultEntries(['a/deleted', 'b/token', 'c/down', 'd/offline', 'e/fine'].map(entry), NOW);
+
+    expect(result.raised).toEqual([{ name: 'a/deleted', alert: expect.objectContaining({ kind: 'gone' }) }]);
+    expect(result.checked).toBe(2);
+    expect(result.skipped).toBe(3);
+    expect(Object.keys(result.updates)).toEqual(['a/deleted', 'e/fine']);
+  });
+
+  it('only flags NOT_FOUND fields of a GraphQL batch as gone', async () => {
+    setGitHubToken('token');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      data: { r0: null, r1: null, r2: { pushedAt: '2026-03-09T00:00:00Z', isArchived: false, stargazerCount: 120, primaryLanguage: null } },
+      errors: [
+        { type: 'NOT_FOUND', path: ['r0'], message: 'Could not resolve to a Repository' },
+        { type: 'FORBIDDEN', path: ['r1'], message: 'Resource protected by organization SAML enforcement' }
+      ]
+    }), { status: 200 })));
+
+    const result = await refreshVaultEntries(['a/deleted', 'b/saml', 'c/fine'].map(entry), NOW);
+    expect(result.raised.map(event => [event.name, event.alert.kind])).toEqual([['a/deleted', 'gone']]);
+    expect(result.skipped).toBe(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { Repo, VaultAlert, VaultEntry } from "../types";
+import { fetchAllRepoDetails } from "./githubService";
+import { getActivityTier } from "./activity";
+
+// Vault freshness monitor: re-enriches saved repos and flags the ones that changed notably
+// since they were saved (archived, went offline, disappeared, or surged in stars).
+
+const STALE_AFTER_MS = 1000 * 3600 * 24;
+const SURGE_MIN_GAIN = 200;
+const SURGE_MIN_RATIO = 0.25;
+
+export interface VaultAlertEvent {
+  name: string;
+  alert: VaultAlert;
+}
+
+export interface VaultRefreshResult {
+  updates: Record<string, Partial<VaultEntry>>; // Keyed by repo name
+  raised: VaultAlertEvent[];                    // Alerts that were not present before
+  checked: number;
+  skipped: number;                              // Rate limited / unreachable, left untouched
+}
+
+export const VAULT_ALERT_LABELS: Record<VaultAlert['kind'], string> = {
+  archived: '已归档',
+  offline: '已离线',
+  gone: '已失联',
+  surge: '星标激增'
+};
+
+export const isVaultStale = (entries: VaultEntry[], now: number = Date.now()): boolean =>
+  entries.some(entry => !entry.checkedAt || now - entry.checkedAt > STALE_AFTER_MS);
+
+// Carry over when a condition was first seen so re-checks don't reset it
+const raise = (entry: VaultEntry, kind: VaultAlert['kind'], detail: string, now: number): VaultAlert => {
+  const existing = entry.alerts?.find(a => a.kind === kind);
+  return { kind, detail, since: existing ? existing.since : now };
+};
+
+const hasAlert = (entry: VaultEntry, kind: VaultAlert['kind']) => !!entry.alerts?.some(a => a.kind === kind);
+
+const computeAlerts = (entry: VaultEntry, details: Partial<Repo> | null, baseline: number | undefined, now: number): VaultAlert[] => {
+  if (!details) return [raise(entry, 'gone', '仓库已删除、改名或转为私有', now)];
+
+  const next = { ...entry, ...details };
+  const alerts: VaultAlert[] = [];
+
+  // Only transitions count: a repo saved while already archived/offline isn't news
+  if (next.isArchived && (!entry.isArchived || hasAlert(entry, 'archived'))) {
+    alerts.push(raise(entry, 'archived', '仓库已被作者归档', now));
+  }
+  if (getActivityTier(next, now) === 'offline' && (getActivityTier(entry, now) !== 'offline' || hasAlert(entry, 'offline'))) {
+    const pushed = next.lastPushedAt ? new Date(next.lastPushedAt).toLocaleDateString('zh-CN') : '未知';
+    alerts.push(raise(entry, 'offline', `超过 180 天无推送 (最后推送 ${pushed})`, now));
+  }
+  if (baseline !== undefined && next.starsCount !== undefined) {
+    const gain = next.starsCount - baseline;
+    if (gain >= Math.max(SURGE_MIN_GAIN, baseline * SURGE_MIN_RATIO)) {
+      alerts.push(raise(entry, 'surge', `自收藏以来 +${gain.toLocaleString()} ★`, now));
+    }
+  }
+  return alerts;
+};
+
+export const refreshVaultEntries = async (entries: VaultEntry[], now: number = Date.now()): Promise<VaultRefreshResult> => {
+  const details = await fetchAllRepoDetails(entries.map(e => e.name));
+  const result: VaultRefreshResult = { updates: {}, raised: [], checked: 0, skipped: 0 };
+
+  for (const entry of entries) {
+    const fresh = details[entry.name];
+    // Rate limited, bad token, server or network error: no verdict, so no 'gone' alert either
+    if (fresh?.isRateLimited) {
+      result.skipped++;
+      continue;
+    }
+
+    // Entries saved before the monitor existed use their first-seen star count as baseline
+    const baseline = entry.starsAtSave ?? entry.starsCount;
+    const alerts = computeAlerts(entry, fresh, baseline, now);
+    alerts
+      .filter(alert => !hasAlert(entry, alert.kind))
+      .forEach(alert => result.raised.push({ name: entry.name, alert }));
+
+    result.updates[entry.name] = { ...(fresh || {}), starsAtSave: baseline, checkedAt: now, alerts };
+    result.checked++;
+  }
+  return result;
+};
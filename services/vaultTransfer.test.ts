@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { VAULT_BUNDLE_FORMAT, exportVaultJson, mergeVaultEntries, parseVaultImport } from "./vaultTransfer";
+import { makeVaultEntry } from "./testFixtures";
+
+const bundle = (entries: unknown[], version = 1) => JSON.stringify({ format: VAULT_BUNDLE_FORMAT, version, entries });
+
+describe('parseVaultImport sanitizing', () => {
+  it('rebuilds the url from the name instead of trusting the file', () => {
+    const { entries } = parseVaultImport(bundle([{ name: 'a/one', url: 'javascript:alert(1)' }]));
+    expect(entries[0].url).toBe('https://github.com/a/one');
+  });
+
+  it('drops unknown fields and mistyped metadata', () => {
+    const { entries } = parseVaultImport(bundle([{
+      name: 'a/one',
+      starsCount: '1000',
+      isArchived: 'yes',
+      injected: '<img onerror=1>'
+    }]));
+    const [imported] = entries;
+    expect(imported).not.toHaveProperty('injected');
+    expect(imported.starsCount).toBeUndefined();
+    expect(imported.isArchived).toBeUndefined();
+  });
+
+  it('keeps only web sources and known alert kinds', () => {
+    const { entries } = parseVaultImport(bundle([{
+      name: 'a/one',
+      sources: [{ uri: 'javascript:alert(1)', title: 'x' }, { uri: 'https://example.com/post' }],
+      alerts: [{ kind: 'surge', detail: '+500', since: 1 }, { kind: 'pwned', since: 2 }, { kind: 'gone', since: 'now' }]
+    }]));
+    expect(entries[0].sources).toEqual([{ uri: 'https://example.com/post', title: 'https://example.com/post' }]);
+    expect(entries[0].alerts).toEqual([{ kind: 'surge', detail: '+500', since: 1 }]);
+  });
+
+  it('coerces wrong field types', () => {
+    const { entries } = parseVaultImport(bundle([{ name: 'a/one', description: 42, tags: ['ok', 7], note: 3, status: 'hacked' }]));
+    const [imported] = entries;
+    expect(imported.description).toBe('');
+    expect(imported.tags).toEqual(['ok']);
+    expect(imported.note).toBeUndefined();
+    expect(imported.status).toBe('evaluate');
+  });
+
+  it('counts entries without a usable name as skipped', () => {
+    const result = parseVaultImport(JSON.stringify([{ name: 'a/one' }, { name: 'nope' }, 'b/two', 'bad name', null]));
+    expect(result.entries.map(e => e.name)).toEqual(['a/one']);
+    expect(result.names).toEqual(['b/two']);
+    expect(result.skipped).toBe(3);
+  });
+
+  it('rejects bundles from a newer version and unknown JSON', () => {
+    expect(() => parseVaultImport(bundle([], 99))).toThrow();
+    expect(() => parseVaultImport('{"foo":1}')).toThrow();
+  });
+
+  it('round-trips an exported bundle', () => {
+    const saved = [makeVaultEntry('a/one', { note: 'n', folder: 'f', personalTags: ['p'], status: 'adopted', addedAt: 5 })];
+    expect(parseVaultImport(exportVaultJson(saved)).entries).toEqual([expect.objectContaining(saved[0])]);
+  });
+
+  it('reads plain lists, ignoring comments and blank lines', () => {
+    const result = parseVaultImport('# mine\na/one\n\nhttps://github.com/b/two\nnot-a-repo');
+    expect(result.kind).toBe('list');
+    expect(result.names).toEqual(['a/one', 'b/two']);
+    expect(result.skipped).toBe(1);
+  });
+});
+
+describe('mergeVaultEntries', () => {
+  const local = [makeVaultEntry('a/one', { note: 'mine', personalTags: ['x'], addedAt: 1 })];
+
+  it('adds new entries and leaves identical ones unchanged', () => {
+    const result = mergeVaultEntries(local, [makeVaultEntry('a/one', { note: 'mine', personalTags: ['x'], addedAt: 1 }), makeVaultEntry('b/two', { addedAt: 2 })], 'replace');
+    expect(result).toMatchObject({ added: 1, updated: 0, unchanged: 1 });
+    expect(result.entries.map(e => e.name)).toEqual(['a/one', 'b/two']);
+  });
+
+  it('keeps local entries on conflict with the keep strategy', () => {
+    const result = mergeVaultEntries(local, [makeVaultEntry('a/one', { note: 'theirs' })], 'keep');
+    expect(result).toMatchObject({ added: 0, updated: 0, unchanged: 1 });
+    expect(result.entries[0].note).toBe('mine');
+  });
+
+  it('counts a conflict as updated when the replacement differs', () => {
+    const result = mergeVaultEntries(local, [makeVaultEntry('a/one', { note: 'theirs' })], 'replace');
+    expect(result).toMatchObject({ added: 0, updated: 1, unchanged: 0 });
+    expect(result.entries[0]).toMatchObject({ note: 'theirs', addedAt: 1 });
+  });
+});
@@ -0,0 +1,336 @@
+import { GroundingSource, VaultAlert, VaultEntry } from "../types";
+import { fetchAllRepoDetails } from "./githubService";
+import { repoKey } from "./scanDiff";
+import { normalizeRepoName } from "./structuredParser";
+import { TRIAGE_STATUSES, toVaultEntry } from "./vault";
+
+// Moving the Data Vault between browsers: versioned JSON bundles, OPML outlines
+// and plain "owner/repo" lists.
+
+export const VAULT_BUNDLE_FORMAT = 'cybergit-vault';
+export const VAULT_BUNDLE_VERSION = 1;
+
+interface VaultBundle {
+  format: typeof VAULT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: VaultEntry[];
+}
+
+export type ConflictStrategy = 'keep' | 'replace' | 'merge';
+
+export interface ParsedImport {
+  kind: 'json' | 'opml' | 'list';
+  entries: VaultEntry[];   // Complete entries (JSON / OPML)
+  names: string[];         // Bare names that still need GitHub enrichment
+  skipped: number;         // Lines / items that could not be read
+}
+
+export interface MergeResult {
+  entries: VaultEntry[];
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+// --- Export ---
+
+export const exportVaultJson = (entries: VaultEntry[]): string => {
+  const bundle: VaultBundle = {
+    format: VAULT_BUNDLE_FORMAT,
+    version: VAULT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries
+  };
+  return JSON.stringify(bundle, null, 2);
+};
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const exportVaultOpml = (entries: VaultEntry[]): string => {
+  const outlines = entries.map(entry => {
+    const attrs: Record<string, string> = {
+      text: entry.name,
+      type: 'link',
+      htmlUrl: entry.url,
+      description: entry.description,
+      category: entry.tags.join(',')
+    };
+    if (entry.note) attrs.note = entry.note;
+    if (entry.folder) attrs.folder = entry.folder;
+    if (entry.personalTags.length > 0) attrs.personalTags = entry.personalTags.join(',');
+    attrs.status = entry.status;
+    if (entry.addedAt) attrs.created = new Date(entry.addedAt).toUTCString();
+    const serialized = Object.entries(attrs).map(([k, v]) => `${k}="${escapeXml(v)}"`).join(' ');
+    return `    <outline ${serialized}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    '    <title>CyberGit Data Vault</title>',
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...outlines,
+    '  </body>',
+    '</opml>'
+  ].join('\n');
+};
+
+// --- Import ---
+
+// Keep only well-formed entries; user metadata is optional
+const stringList = (value: any): string[] =>
+  Array.isArray(value) ? value.filter((t: any) => typeof t === 'string') : [];
+
+const isTriageStatus = (value: any) => TRIAGE_STATUSES.some(s => s.value === value);
+
+const ALERT_KINDS: VaultAlert['kind'][] = ['archived', 'offline', 'gone', 'surge'];
+
+const optString = (value: any): string | undefined => typeof value === 'string' ? value : undefined;
+const optNumber = (value: any): number | undefined => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Cited pages are rendered as links, so only plain web URLs survive an import
+const sanitizeSources = (value: any): GroundingSource[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const sources = value
+    .filter((s: any) => s && typeof s.uri === 'string' && /^https?:\/\//i.test(s.uri))
+    .map((s: any): GroundingSource => ({ uri: s.uri, title: typeof s.title === 'string' ? s.title : s.uri }));
+  return sources.length > 0 ? sources : undefined;
+};
+
+const sanitizeAlerts = (value: any): VaultAlert[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const alerts = value
+    .filter((a: any) => a && ALERT_KINDS.includes(a.kind) && typeof a.since === 'number')
+    .map((a: any): VaultAlert => ({ kind: a.kind, detail: typeof a.detail === 'string' ? a.detail : '', since: a.since }));
+  return alerts.length > 0 ? alerts : undefined;
+};
+
+// Only known fields are copied; the URL is always rebuilt from the name so an imported
+// file cannot smuggle in a javascript: or off-site link
+const sanitizeEntry = (item: any): VaultEntry | null => {
+  if (!item || typeof item !== 'object') return null;
+  const name = typeof item.name === 'string' ? normalizeRepoName(item.name) : null;
+  if (!name) return null;
+  return {
+    name,
+    url: `https://github.com/${name}`,
+    description: optString(item.description) ?? '',
+    starsTrend: optString(item.starsTrend) ?? '',
+    tags: stringList(item.tags),
+    lastPushedAt: optString(item.lastPushedAt),
+    isArchived: typeof item.isArchived === 'boolean' ? item.isArchived : undefined,
+    starsCount: optNumber(item.starsCount),
+    language: optString(item.language),
+    sources: sanitizeSources(item.sources),
+    surfacedBy: Array.isArray(item.surfacedBy) ? stringList(item.surfacedBy) : undefined,
+    addedAt: optNumber(item.addedAt),
+    note: optString(item.note),
+    folder: optString(item.folder),
+    personalTags: stringList(item.personalTags),
+    status: isTriageStatus(item.status) ? item.status : 'evaluate',
+    starsAtSave: optNumber(item.starsAtSave),
+    checkedAt: optNumber(item.checkedAt),
+    alerts: sanitizeAlerts(item.alerts)
+  };
+};
+
+const splitList = (value: string | null) => (value || '').split(',').map(t => t.trim()).filter(Boolean);
+
+const parseJsonImport = (data: any): ParsedImport => {
+  // Versioned bundle, or a bare array (raw vault dump)
+  let items: any[];
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (data && data.format === VAULT_BUNDLE_FORMAT && Array.isArray(data.entries)) {
+    if (data.version > VAULT_BUNDLE_VERSION) {
+      throw new Error(`导入文件版本 v${data.version} 高于当前支持的 v${VAULT_BUNDLE_VERSION}，请升级后再导入。`);
+    }
+    items = data.entries;
+  } else {
+    throw new Error('无法识别的 JSON 格式。');
+  }
+
+  const entries: VaultEntry[] = [];
+  const names: string[] = [];
+  let skipped = 0;
+  for (const item of items) {
+    if (typeof item === 'string') {
+      const name = normalizeRepoName(item);
+      if (name) names.push(name); else skipped++;
+      continue;
+    }
+    const entry = sanitizeEntry(item);
+    if (entry) entries.push(entry); else skipped++;
+  }
+  return { kind: 'json', entries, names, skipped };
+};
+
+const parseOpmlImport = (text: string): ParsedImport => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('OPML 文件解析失败。');
+
+  const entries: VaultEntry[] = [];
+  let skipped = 0;
+  doc.querySelectorAll('outline').forEach(outline => {
+    const url = outline.getAttribute('htmlUrl') || '';
+    const name = normalizeRepoName(url) || normalizeRepoName(outline.getAttribute('text') || '');
+    if (!name) {
+      // Folder outlines carry no URL; only count leaf nodes as skipped
+      if (outline.children.length === 0) skipped++;
+      return;
+    }
+    const created = Date.parse(outline.getAttribute('created') || '');
+    const status = outline.getAttribute('status');
+    entries.push(toVaultEntry({
+      name,
+      url: `https://github.com/${name}`, // Never the raw htmlUrl, see sanitizeEntry
+      description: outline.getAttribute('description') || '',
+      starsTrend: '',
+      tags: splitList(outline.getAttribute('category'))
+    }, {
+      note: outline.getAttribute('note') || undefined,
+      addedAt: Number.isNaN(created) ? undefined : created,
+      folder: outline.getAttribute('folder') || undefined,
+      personalTags: splitList(outline.getAttribute('personalTags')),
+      ...(isTriageStatus(status) ? { status: status as VaultEntry['status'] } : {})
+    }));
+  });
+  return { kind: 'opml', entries, names: [], skipped };
+};
+
+// One "owner/repo" (or GitHub URL) per line; blank lines and # comments ignored
+const parseListImport = (text: string): ParsedImport => {
+  const names: string[] = [];
+  let skipped = 0;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const name = normalizeRepoName(line);
+    if (name) names.push(name); else skipped++;
+  }
+  return { kind: 'list', entries: [], names, skipped };
+};
+
+export const parseVaultImport = (text: string): ParsedImport => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseJsonImport(JSON.parse(trimmed));
+  }
+  if (trimmed.startsWith('<')) {
+    return parseOpmlImport(trimmed);
+  }
+  return parseListImport(trimmed);
+};
+
+// Turn bare names into vault entries with live GitHub metadata; unknown repos are returned separately
+export const enrichImportedNames = async (names: string[]): Promise<{ entries: VaultEntry[]; missing: string[] }> => {
+  const unique = Array.from(new Map(names.map(n => [repoKey(n), n])).values());
+  const details = await fetchAllRepoDetails(unique);
+  const entries: VaultEntry[] = [];
+  const missing: string[] = [];
+
+  for (const name of unique) {
+    const found = details[name];
+    if (!found) {
+      missing.push(name);
+      continue;
+    }
+    entries.push(toVaultEntry({
+      name,
+      url: `https://github.com/${name}`,
+      description: '',
+      starsTrend: '',
+      tags: [],
+      ...found
+    }));
+  }
+  return { entries, missing };
+};
+
+// --- Merge ---
+
+const mergeTags = (a: string[], b: string[]) => {
+  const seen = new Set(a.map(t => t.toLowerCase()));
+  return [...a, ...b.filter(t => !seen.has(t.toLowerCase()))];
+};
+
+// "merge": local values win, imported data only fills gaps; notes are combined
+const mergeEntry = (local: VaultEntry, incoming: VaultEntry): VaultEntry => {
+  const filled = { ...incoming, ...Object.fromEntries(
+    Object.entries(local).filter(([, v]) => v !== undefined && v !== '')
+  ) } as VaultEntry;
+
+  const notes = [local.note, incoming.note].filter((n): n is string => !!n);
+  const dates = [local.addedAt, incoming.addedAt].filter((t): t is number => t !== undefined);
+  return {
+    ...filled,
+    tags: mergeTags(local.tags, incoming.tags),
+    personalTags: mergeTags(local.personalTags, incoming.personalTags),
+    note: notes.length > 0 ? Array.from(new Set(notes)).join('\n---\n') : undefined,
+    addedAt: dates.length > 0 ? Math.min(...dates) : undefined // Keep the earliest save
+  };
+};
+
+// Field by field, so key order and absent-vs-undefined fields don't count as a change
+const SCALAR_FIELDS = [
+  'url', 'description', 'starsTrend', 'lastPushedAt', 'isArchived', 'starsCount', 'language',
+  'addedAt', 'note', 'folder', 'status', 'starsAtSave', 'checkedAt'
+] as const;
+
+const sameList = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+const sameEntry = (a: VaultEntry, b: VaultEntry): boolean =>
+  SCALAR_FIELDS.every(field => a[field] === b[field])
+  && sameList(a.tags, b.tags)
+  && sameList(a.personalTags, b.personalTags)
+  && sameList(a.surfacedBy, b.surfacedBy)
+  && sameList(a.sources?.map(s => s.uri), b.sources?.map(s => s.uri))
+  && sameList(a.alerts?.map(x => `${x.kind}:${x.since}:${x.detail}`), b.alerts?.map(x => `${x.kind}:${x.since}:${x.detail}`));
+
+export const countConflicts = (existing: VaultEntry[], incoming: VaultEntry[]): number => {
+  const keys = new Set(existing.map(e => repoKey(e.name)));
+  return incoming.filter(e => keys.has(repoKey(e.name))).length;
+};
+
+export const mergeVaultEntries = (existing: VaultEntry[], incoming: VaultEntry[], strategy: ConflictStrategy): MergeResult => {
+  const result = [...existing];
+  const index = new Map(existing.map((e, i) => [repoKey(e.name), i]));
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+  const now = Date.now();
+
+  for (const entry of incoming) {
+    const key = repoKey(entry.name);
+    const at = index.get(key);
+
+    if (at === undefined) {
+      index.set(key, result.length);
+      result.push({ ...entry, addedAt: entry.addedAt ?? now });
+      added++;
+      continue;
+    }
+
+    const local = result[at];
+    const next = strategy === 'keep' ? local
+      : strategy === 'replace' ? { ...entry, addedAt: entry.addedAt ?? local.addedAt }
+      : mergeEntry(local, entry);
+
+    if (sameEntry(local, next)) {
+      unchanged++;
+    } else {
+      result[at] = next;
+      updated++;
+    }
+  }
+
+  return { entries: result, added, updated, unchanged };
+};
@@ -0,0 +1,105 @@
+/// <reference lib="webworker" />
+import { BACKGROUND_DONE_MESSAGE, BACKGROUND_SYNC_TAG, RefreshNotice } from './services/backgroundMessages';
+import { reloadStorage } from './services/storage';
+
+// Service worker: offline app shell + scheduled background refresh with notifications.
+// Built as its own entry (see vite.config.ts) and registered by services/serviceWorker.
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const SHELL_CACHE = 'cybergit-shell-v1';
+const SHELL_URLS = ['/', '/index.html'];
+// Third-party hosts the shell needs to render offline (styles, fonts, import map)
+const SHELL_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => sw.skipWaiting())
+  );
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => sw.clients.claim())
+  );
+});
+
+// Pages: network first so deploys show up, cached shell when offline.
+// Error and redirect pages are passed through but never replace the cached shell.
+const handleNavigation = async (request: Request): Promise<Response> => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+};
+
+// Static assets: serve from cache, refresh it in the background
+const handleAsset = async (request: Request): Promise<Response> => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || network;
+};
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === sw.location.origin || SHELL_HOSTS.includes(url.hostname)) {
+    // API calls (GitHub, model providers) are never cached
+    event.respondWith(handleAsset(request));
+  }
+});
+
+const showNotices = async (notices: RefreshNotice[]) => {
+  for (const notice of notices) {
+    await sw.registration.showNotification(notice.title, { body: notice.body, tag: notice.tag });
+  }
+};
+
+const backgroundRefresh = async () => {
+  // The page may have written records since this worker last woke up
+  await reloadStorage();
+  // Providers and the model SDKs load only here, not on every worker start (fetch, notification clicks)
+  const { runBackgroundRefresh } = await import('./services/backgroundRefresh');
+  const notices = await runBackgroundRefresh();
+  if (Notification.permission === 'granted') await showNotices(notices);
+
+  // Open pages re-read storage so they don't overwrite what was just written
+  const clients = await sw.clients.matchAll({ type: 'window' });
+  clients.forEach(client => client.postMessage({ type: BACKGROUND_DONE_MESSAGE }));
+};
+
+// Periodic Background Sync is not in the standard lib typings yet
+sw.addEventListener('periodicsync' as any, (event: any) => {
+  if (event.tag === BACKGROUND_SYNC_TAG) {
+    event.waitUntil(backgroundRefresh());
+  }
+});
+
+sw.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const clients = await sw.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (clients.length > 0) return clients[0].focus();
+    return sw.clients.openWindow('/');
+  })());
+});
@@ -10,14 +10,105 @@ export interface Repo {
   starsCount?: number;
   language?: string;
   isRateLimited?: boolean; // New flag for API limit handling
+  starsVelocity?: number; // Measured stars/day from local snapshots (see starHistory)
+  sources?: GroundingSource[]; // Web pages the model cited for this pick (Gemini grounding)
+  surfacedBy?: string[]; // Provider ids that picked this repo (ensemble mode)
 }
 
-export type TimeFrame = '3d' | '7d' | '14d';
+export type TriageStatus = 'evaluate' | 'adopted' | 'rejected';
+
+// Raised by the vault freshness monitor when a saved repo changed notably
+export interface VaultAlert {
+  kind: 'archived' | 'offline' | 'gone' | 'surge';
+  detail: string;
+  since: number; // Epoch ms the condition was first seen
+}
+
+// A repo saved in the Data Vault, plus the user's own metadata
+export interface VaultEntry extends Repo {
+  addedAt?: number;       // Epoch ms; unknown for entries saved before it was tracked
+  note?: string;
+  folder?: string;        // Collection name; empty = unfiled
+  personalTags: string[]; // User tags, kept apart from the AI `tags`
+  status: TriageStatus;
+  starsAtSave?: number;   // Baseline for star growth alerts
+  checkedAt?: number;     // Last freshness check (epoch ms)
+  alerts?: VaultAlert[];
+}
+
+// A web page cited by a search-grounded model
+export interface GroundingSource {
+  title: string;
+  uri: string;
+}
+
+// Scan window: a rolling span ending now, or a fixed calendar range (see services/timeFrames)
+export type TimeFrame =
+  | { kind: 'rolling'; hours: number }
+  | { kind: 'range'; from: string; to: string }; // Inclusive YYYY-MM-DD dates (UTC)
+
+// User-defined topic hunt: narrows provider prompts and GitHub search to a niche
+export interface HuntProfile {
+  id: string;
+  name: string;          // Tab label, e.g. "Rust CLI tools"
+  keywords: string[];
+  languages: string[];
+  exclusions: string[];  // Terms that disqualify a repo
+  timeFrame: TimeFrame;
+}
+
+// A point in a repo's star history
+export interface StarSnapshot {
+  t: number;      // Epoch ms
+  stars: number;
+}
+
+// Per-provider connection settings entered in the key modal
+export interface ProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+  describer?: string; // Provider id used to write Chinese descriptions (GitHub Search source)
+  timeout?: string;   // Seconds; empty = provider default, "0" = unlimited
+}
+
+// Remaining GitHub API budget, parsed from x-ratelimit-* response headers
+export interface GitHubRateLimit {
+  resource: string;   // "core", "search", "graphql", ...
+  remaining: number;
+  limit: number;
+  resetAt: number;    // Epoch ms
+  authenticated: boolean;
+}
+
+export type ConnectionStatus = 'idle' | 'checking' | 'success' | 'error';
 
 export interface ScanResult {
+  id?: number; // Assigned when stored in scan history
   repos: Repo[];
   timestamp: string;
   scanTimeTaken: string;
+  providerId?: string;
+  timeFrame?: TimeFrame;
+  profileId?: string;   // Hunt profile the scan ran under (none = generic trending)
+  profileName?: string; // Kept so history stays readable after the profile is deleted
+  sources?: GroundingSource[]; // Every source cited during the scan
+}
+
+// Last scan per time window (and hunt profile), reused until the next refresh checkpoint
+export interface CachedScan {
+  data: Repo[];
+  timestamp: number;
+  sources?: GroundingSource[];
+}
+
+// A model-produced repo after shape cleaning (validateRepoShape), not yet checked against GitHub
+export type RepoCandidate = Pick<Repo, 'name' | 'url' | 'description' | 'starsTrend' | 'tags' | 'sources'>;
+
+// Raw provider output before GitHub validation
+export interface CandidateBatch {
+  candidates: RepoCandidate[];
+  sources?: GroundingSource[];
 }
 
 export enum AppStatus {
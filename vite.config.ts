@@ -18,6 +18,22 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      build: {
+        modulePreload: {
+          // The preload helper touches `document`; the worker's lazy scan import must skip it
+          resolveDependencies: (_filename, deps, { hostId }) => hostId === 'sw.js' ? [] : deps,
+        },
+        rollupOptions: {
+          // The service worker is its own entry, served unhashed from the root so its scope covers the app
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            sw: path.resolve(__dirname, 'sw.ts'),
+          },
+          output: {
+            entryFileNames: (chunk) => chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js',
+          }
+        }
       }
     };
 });